@@ -0,0 +1,173 @@
+/**
+ * Anchor selection for the patience and histogram diff algorithms: both pick
+ * token matches that are unlikely to be coincidental, split the texts around
+ * them and diff the pieces in between.
+ */
+
+/**
+ * Tokens occurring more often than this in text1 are never used as histogram
+ * anchors.
+ */
+const HISTOGRAM_MAX_CHAIN: i32 = 64;
+
+/**
+ * Find the tokens that occur exactly once in both texts and keep the longest
+ * run of them that appears in the same order on both sides.
+ * @param {Array.<i32>} text1 Old interned tokens.
+ * @param {Array.<i32>} text2 New interned tokens.
+ * @return {Array.<i32>} Index pairs [index1, index2, index1, index2, ...] of
+ *     the anchors in ascending order, empty if there are none.
+ */
+export function patience_anchors(text1: i32[], text2: i32[]): i32[] {
+  const count1 = token_counts_(text1);
+  const count2 = token_counts_(text2);
+  const index1 = new Map<i32, i32>();
+  for (let i: i32 = 0; i < text1.length; i++) {
+    index1.set(text1[i], i);
+  }
+
+  // Unique tokens in text2 order, with their position in text1.
+  const positions1: i32[] = [];
+  const positions2: i32[] = [];
+  for (let j: i32 = 0; j < text2.length; j++) {
+    const token = text2[j];
+    if (
+      count2.get(token) === 1 &&
+      count1.has(token) &&
+      count1.get(token) === 1
+    ) {
+      positions1.push(index1.get(token));
+      positions2.push(j);
+    }
+  }
+
+  // Longest increasing subsequence of positions1 by patience sorting: tails[k]
+  // is the candidate with the smallest position1 ending a run of length k + 1.
+  const tails: i32[] = [];
+  const previous = new Array<i32>(positions1.length);
+  for (let k: i32 = 0; k < positions1.length; k++) {
+    let low: i32 = 0;
+    let high: i32 = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (positions1[tails[mid]] < positions1[k]) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[k] = low > 0 ? tails[low - 1] : -1;
+    if (low === tails.length) {
+      tails.push(k);
+    } else {
+      tails[low] = k;
+    }
+  }
+
+  const anchors = new Array<i32>(tails.length * 2);
+  let k = tails.length ? tails[tails.length - 1] : -1;
+  for (let x = tails.length - 1; x >= 0; x--) {
+    anchors[2 * x] = positions1[k];
+    anchors[2 * x + 1] = positions2[k];
+    k = previous[k];
+  }
+  return anchors;
+}
+
+/**
+ * Find a long common run of rare tokens, the way git's histogram diff does:
+ * a run replaces the best one so far if it is longer, or if its rarest token
+ * occurs less often in text1.  So a longer run wins even if it is more
+ * common.
+ * @param {Array.<i32>} text1 Old interned tokens.
+ * @param {Array.<i32>} text2 New interned tokens.
+ * @return {Array.<i32>} [start1, start2, length] of the run, empty if every
+ *     common token is too frequent.
+ */
+export function histogram_anchor(text1: i32[], text2: i32[]): i32[] {
+  const occurrences = new Map<i32, i32[]>();
+  for (let i: i32 = 0; i < text1.length; i++) {
+    if (occurrences.has(text1[i])) {
+      occurrences.get(text1[i]).push(i);
+    } else {
+      occurrences.set(text1[i], [i]);
+    }
+  }
+
+  let best_count = HISTOGRAM_MAX_CHAIN + 1;
+  let best_start1: i32 = 0;
+  let best_start2: i32 = 0;
+  let best_length: i32 = 0;
+  let j: i32 = 0;
+  while (j < text2.length) {
+    let next_j = j + 1;
+    if (occurrences.has(text2[j])) {
+      const positions = occurrences.get(text2[j]);
+      for (let p: i32 = 0; p < positions.length; p++) {
+        // Too common, at least compared to the best run so far.
+        if (positions.length > best_count) break;
+        // Grow the match in both directions.
+        let start1 = positions[p];
+        let start2 = j;
+        while (
+          start1 > 0 &&
+          start2 > 0 &&
+          text1[start1 - 1] === text2[start2 - 1]
+        ) {
+          start1--;
+          start2--;
+        }
+        let end1 = positions[p] + 1;
+        let end2 = j + 1;
+        while (
+          end1 < text1.length &&
+          end2 < text2.length &&
+          text1[end1] === text2[end2]
+        ) {
+          end1++;
+          end2++;
+        }
+        // A run is as rare as its rarest token.
+        let count = positions.length;
+        for (let i = start1; i < end1; i++) {
+          count = min(count, occurrences.get(text1[i]).length);
+        }
+        if (end1 - start1 > best_length || count < best_count) {
+          best_count = count;
+          best_start1 = start1;
+          best_start2 = start2;
+          best_length = end1 - start1;
+        }
+        // Tokens inside this match won't start a better one.
+        next_j = max(next_j, end2);
+      }
+    }
+    j = next_j;
+  }
+  if (!best_length) return [];
+  return [best_start1, best_start2, best_length];
+}
+
+/**
+ * Count how often each token occurs.
+ * @param {Array.<i32>} tokens The tokens to count.
+ * @return {Map<i32, i32>} Number of occurrences per token.
+ */
+function token_counts_(tokens: i32[]): Map<i32, i32> {
+  const counts = new Map<i32, i32>();
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    counts.set(
+      tokens[i],
+      counts.has(tokens[i]) ? counts.get(tokens[i]) + 1 : 1
+    );
+  }
+  return counts;
+}
+
+function max(i: i32, j: i32): i32 {
+  return i > j ? i : j;
+}
+
+function min(i: i32, j: i32): i32 {
+  return i < j ? i : j;
+}
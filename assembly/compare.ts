@@ -0,0 +1,90 @@
+/**
+ * Comparison keys: tokens are diffed by a key that drops the differences a
+ * reader doesn't care about, such as case or trailing punctuation, while the
+ * results keep the original tokens.
+ */
+
+import { is_punctuation, is_whitespace } from "./tokenizer";
+
+/**
+ * Unicode normalization applied before tokens are compared.
+ */
+export enum Normalization {
+  None = 0,
+  /** Canonical composition: "e" + U+0301 matches "é". */
+  NFC = 1,
+  /** Compatibility composition: also "ﬁ" matches "fi" and "①" matches "1". */
+  NFKC = 2,
+}
+
+// @ts-ignore: decorator
+@external("env", "normalize")
+@external.js("return text.normalize(form);")
+declare function normalize(text: string, form: string): string;
+
+/**
+ * Compute the key a token is compared by.
+ * @param {string} token The token.
+ * @param {boolean} ignore_case Whether case differences are ignored.
+ * @param {boolean} ignore_punctuation Whether punctuation at the start and end
+ *     of a word is ignored.
+ * @param {Normalization} normalization The Unicode normalization form.
+ * @param {boolean} ignore_whitespace Whether whitespace-only tokens are equal
+ *     when they both break the line or both don't.
+ * @return {string} The comparison key.
+ */
+export function compare_key(
+  token: string,
+  ignore_case: boolean,
+  ignore_punctuation: boolean,
+  normalization: Normalization,
+  ignore_whitespace: boolean
+): string {
+  // Line mode still has to find the line breaks in the keys.
+  if (ignore_whitespace && is_blank_(token)) {
+    return token.includes("\n") ? "\n" : " ";
+  }
+  let key = token;
+  if (normalization === Normalization.NFC) {
+    key = normalize(key, "NFC");
+  } else if (normalization === Normalization.NFKC) {
+    key = normalize(key, "NFKC");
+  }
+  if (ignore_case) key = key.toLowerCase();
+  if (ignore_punctuation) key = strip_punctuation_(key);
+  return key;
+}
+
+/**
+ * Check whether a token is made of whitespace only.
+ * @param {string} token The token.
+ * @return {boolean} True if it is, false for the empty token.
+ */
+function is_blank_(token: string): boolean {
+  for (let i: i32 = 0; i < token.length; i++) {
+    if (!is_whitespace(token.charCodeAt(i))) return false;
+  }
+  return token.length > 0;
+}
+
+/**
+ * Strip the punctuation off both ends of a word, keeping tokens that are
+ * punctuation only as they are.  "(end)," -> "end", "can't" -> "can't"
+ * @param {string} token The token.
+ * @return {string} The token without surrounding punctuation.
+ */
+function strip_punctuation_(token: string): string {
+  let start: i32 = 0;
+  let end: i32 = token.length;
+  while (start < end && is_punctuation(token.codePointAt(start))) {
+    start += token.codePointAt(start) > 0xffff ? 2 : 1;
+  }
+  while (end > start) {
+    const last = token.codePointAt(end - 1);
+    // a low surrogate: the code point starts one code unit earlier
+    const width: i32 = last >= 0xdc00 && last <= 0xdfff ? 2 : 1;
+    if (!is_punctuation(token.codePointAt(end - width))) break;
+    end -= width;
+  }
+  return start < end ? token.substring(start, end) : token;
+}
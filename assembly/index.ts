@@ -1,7 +1,8 @@
 /**
  * This library modifies the diff-patch-match library by Neil Fraser
- * by removing the patch and match functionality and certain advanced
- * options in the diff function. The original license is as follows:
+ * by diffing, matching and patching arrays of tokens instead of strings
+ * and by removing certain advanced options in the diff function. The
+ * original license is as follows:
  *
  * ===
  *
@@ -23,7 +24,29 @@
  * limitations under the License.
  */
 
-import { arrayIndexOf } from "./str-array-cmp";
+import { histogram_anchor, patience_anchors } from "./anchors";
+import { compare_key, Normalization } from "./compare";
+import {
+  arrayIndexOf,
+  internKeys,
+  internTokens,
+  KeyTable,
+  TokenTable,
+} from "./str-array-cmp";
+import {
+  is_tokenizer,
+  is_whitespace,
+  tokenize_text,
+  Tokenizer,
+} from "./tokenizer";
+
+export { Tokenizer } from "./tokenizer";
+export {
+  match_defaultDistance,
+  match_defaultThreshold,
+  match_main,
+} from "./match";
+export { Normalization } from "./compare";
 
 /**
  * The data structure representing a diff is an array of tuples:
@@ -33,6 +56,80 @@ import { arrayIndexOf } from "./str-array-cmp";
 const DIFF_DELETE = -1;
 const DIFF_INSERT = 1;
 const DIFF_EQUAL = 0;
+/** Op of a worddiff chunk holding a run moved from elsewhere in text1. */
+const DIFF_MOVE = 2;
+/** Type of the tuple after the last one, see diff_readerType_. */
+const DIFF_NONE = 3;
+
+/**
+ * The operation of a worddiff chunk, with the same values as the DIFF_*
+ * constants.
+ */
+export enum DiffOp {
+  Delete = DIFF_DELETE,
+  Equal = DIFF_EQUAL,
+  Insert = DIFF_INSERT,
+  /**
+   * Tokens inserted where the chunk sits that were deleted elsewhere, see
+   * DiffOptions.moveMinLength.  Only worddiff chunks have this op.
+   */
+  Move = DIFF_MOVE,
+}
+
+/**
+ * How diff_compute_ splits a changed region that can't be sped up otherwise.
+ */
+export enum DiffAlgorithm {
+  /** Myers' O(ND) bisection: always a minimal diff. */
+  Myers = 0,
+  /**
+   * Patience diff: align the tokens that occur exactly once in both texts,
+   * then diff between them.  Better on reordered text, where Myers aligns
+   * common filler words.
+   */
+  Patience = 1,
+  /**
+   * Histogram diff: like patience, but anchor on the rarest tokens even if
+   * they occur more than once.
+   */
+  Histogram = 2,
+}
+
+/**
+ * Default cost of an empty edit operation in terms of tokens, see
+ * diff_cleanupEfficiency.
+ */
+const DIFF_EDIT_COST = 4;
+
+/**
+ * Default number of tokens of context kept around each patch hunk.
+ */
+const PATCH_MARGIN = 4;
+
+/**
+ * Most token pairs move detection compares, in all its searches for the
+ * longest common run of two segments together.  Beyond that, the moves found
+ * so far are kept and no more are looked for.
+ */
+const MOVE_MAX_CELLS: i64 = 1 << 24;
+
+/**
+ * In line mode, texts with fewer tokens than this are still diffed word by
+ * word from the start.
+ */
+const DIFF_LINE_MODE_MIN_TOKENS = 100;
+
+/**
+ * How close in length a deleted chunk and the inserted chunk after it must be
+ * for worddiff to refine them: shorter length / longer length.
+ */
+const REFINE_MIN_RATIO: f64 = 0.5;
+
+/**
+ * Unoptimized (debug) builds check that every diff_main result rebuilds both
+ * of its inputs.
+ */
+const DIFF_VALIDATE: boolean = ASC_OPTIMIZE_LEVEL == 0;
 
 class CursorPosRange {
   index: i32;
@@ -40,13 +137,464 @@ class CursorPosRange {
 }
 
 class CursorPos {
+  /** The selection in text1 before the edit. */
   oldRange: CursorPosRange;
+  /** The selection in text2 after the edit. */
   newRange: CursorPosRange;
 }
 
 class DiffObject {
   type: i32;
   text: string[];
+  /**
+   * Token range [start1, end1) of this chunk in text1 and [start2, end2) in
+   * text2.  An insertion has an empty range in text1 and a deletion in text2,
+   * at the position where the chunk would go.  Only set on returned diffs.
+   */
+  start1: i32 = 0;
+  end1: i32 = 0;
+  start2: i32 = 0;
+  end2: i32 = 0;
+}
+
+/**
+ * A diff tuple inside diff_main, which works on interned tokens.
+ */
+class InternedDiff {
+  type: i32;
+  text: i32[];
+}
+
+/**
+ * What DiffObject and InternedDiff have in common, as the type constraint of
+ * the functions handling both.
+ */
+class DiffTuple<T> {
+  type: i32;
+  text: T[];
+}
+
+class DiffOptions {
+  /**
+   * Number of milliseconds to spend on the diff before settling for a coarser
+   * result.  0 means no time limit.
+   */
+  timeout: i32 = 0;
+  /**
+   * Number of edit distance steps diff_bisect_ may explore, summed over the
+   * whole diff, before settling for a coarser result.  0 means no limit.
+   */
+  maxEdits: i32 = 0;
+  /**
+   * Run diff_cleanupSemantic on the result, trading minimality for chunks of
+   * change a human can read.
+   */
+  cleanupSemantic: boolean = false;
+  /**
+   * Run diff_cleanupEfficiency on the result, folding short equalities into
+   * the surrounding edits to make the diff more compact.
+   */
+  cleanupEfficiency: boolean = false;
+  /**
+   * Cost of an empty edit operation in tokens, used by cleanupEfficiency.
+   * The larger the edit cost, the more equalities get folded.  0 means 4.
+   */
+  editCost: i32 = 0;
+  /**
+   * Skip diffing when either side has fewer tokens than this and report the
+   * whole of text1 as deleted and the whole of text2 as inserted.  Faster on
+   * short inputs, but the result is no longer minimal.  0 means always diff.
+   */
+  shortcutLength: i32 = 0;
+  /**
+   * Diff lines first and then only the changed lines word by word.  Much
+   * faster on long texts with few changes, but the result may not be
+   * minimal.
+   */
+  lineMode: boolean = false;
+  /**
+   * The diff algorithm, see DiffAlgorithm.  Patience and histogram results
+   * may not be minimal.
+   */
+  algorithm: DiffAlgorithm = DiffAlgorithm.Myers;
+  /**
+   * Report runs of at least this many tokens that were deleted in one place
+   * and inserted unchanged in another as moves: Move chunks in worddiff
+   * results, DiffResult.moves in diff results.  0 means no move detection.
+   */
+  moveMinLength: i32 = 0;
+  /** Compare tokens ignoring case: "The" matches "the". */
+  ignoreCase: boolean = false;
+  /**
+   * Compare words ignoring the punctuation at their start and end: "end,"
+   * matches "end".
+   */
+  ignorePunctuation: boolean = false;
+  /** Compare tokens after Unicode normalization, see Normalization. */
+  normalization: Normalization = Normalization.None;
+  /**
+   * Treat whitespace-only tokens as equal when they both break the line or
+   * both don't, so changes in spacing and blank lines don't show. A
+   * whitespace-only token added or removed between two other tokens is
+   * still an insertion or deletion, since the results keep every token of
+   * both texts.
+   */
+  ignoreWhitespace: boolean = false;
+}
+
+/**
+ * A run of tokens deleted in one place and inserted unchanged in another.
+ */
+class DiffMove {
+  /** The moved tokens. */
+  text: string[];
+  /** Index of the deletion the run was taken from, in diffs or chunks. */
+  from: i32;
+  /** Index of the insertion the run was moved to, in diffs or chunks. */
+  to: i32;
+  /** Token range [start1, end1) of the run in text1. */
+  start1: i32;
+  end1: i32;
+  /** Token range [start2, end2) of the run in text2. */
+  start2: i32;
+  end2: i32;
+}
+
+class DiffResult {
+  diffs: DiffObject[];
+  /** True if the timeout or edit budget ran out and the diff isn't minimal. */
+  truncated: boolean;
+  /**
+   * The moved runs in text1 order, empty unless moveMinLength is set.  The
+   * diffs still list them as deleted and inserted.
+   */
+  moves: DiffMove[];
+}
+
+/**
+ * Token counts of a diff, see diff_stats.
+ */
+class DiffStats {
+  /** Tokens only in text2. */
+  inserted: i32;
+  /** Tokens only in text1. */
+  deleted: i32;
+  /** Tokens in both texts. */
+  unchanged: i32;
+  /** Number of runs of insertions and deletions between equalities. */
+  hunks: i32;
+  /** Number of inserted, deleted or substituted tokens. */
+  levenshtein: i32;
+  /**
+   * 2 * unchanged / (length of text1 + length of text2), from 0.0 (nothing
+   * in common) to 1.0 (equal texts, including two empty ones).
+   */
+  similarity: f64;
+}
+
+/**
+ * One tuple of a diff_keys result: the key ranges [start1, end1) of keys1
+ * and [start2, end2) of keys2 it covers.
+ */
+class KeyDiff {
+  type: i32;
+  start1: i32;
+  end1: i32;
+  start2: i32;
+  end2: i32;
+}
+
+/**
+ * A run of keys deleted in one place and inserted unchanged in another, see
+ * DiffMove.
+ */
+class KeyMove {
+  /** Index of the deletion the run was taken from, in diffs. */
+  from: i32;
+  /** Index of the insertion the run was moved to, in diffs. */
+  to: i32;
+  /** Key range [start1, end1) of the run in keys1. */
+  start1: i32;
+  end1: i32;
+  /** Key range [start2, end2) of the run in keys2. */
+  start2: i32;
+  end2: i32;
+}
+
+class KeyDiffResult {
+  diffs: KeyDiff[];
+  /** True if the timeout or edit budget ran out and the diff isn't minimal. */
+  truncated: boolean;
+  /** The moved runs in keys1 order, empty unless moveMinLength is set. */
+  moves: KeyMove[];
+}
+
+class WordDiffOptions {
+  /** How the texts are split into tokens. */
+  tokenizer: Tokenizer = Tokenizer.Words;
+  diff: DiffOptions | null = null;
+  /**
+   * Diff every deleted chunk against the inserted chunk replacing it,
+   * character by character, when the two are of similar length.  The result
+   * is stored in the parts of both chunks.  The character diffs use up the
+   * timeout and edit budget of the word diff; once it runs out, the chunks
+   * left are not refined.
+   */
+  refine: boolean = false;
+}
+
+/**
+ * A run of characters inside a refined chunk.
+ */
+class WordDiffPart {
+  /** Equal, or the op of the chunk for characters it removed or added. */
+  op: DiffOp;
+  text: string;
+  /**
+   * UTF-16 range [charStart, charEnd) of the part in text1 for a deleted
+   * chunk, in text2 for an inserted chunk.
+   */
+  charStart: i32;
+  charEnd: i32;
+}
+
+/**
+ * A run of tokens of a word diff.  Chunks are in text2 order; the deleted
+ * ones sit where their tokens were.  A Move chunk sits where its tokens were
+ * inserted, and its text1 ranges give where they were deleted instead.
+ */
+class WordDiffChunk {
+  op: DiffOp;
+  /** The tokens of this chunk, from text2 if inserted or moved. */
+  tokens: string[];
+  /** The tokens joined back into the text they came from. */
+  text: string;
+  /** Token range [start1, end1) of the chunk in text1, empty if inserted. */
+  start1: i32;
+  end1: i32;
+  /** Token range [start2, end2) of the chunk in text2, empty if deleted. */
+  start2: i32;
+  end2: i32;
+  /** UTF-16 range [charStart1, charEnd1) of the chunk in text1. */
+  charStart1: i32;
+  charEnd1: i32;
+  /** UTF-16 range [charStart2, charEnd2) of the chunk in text2. */
+  charStart2: i32;
+  charEnd2: i32;
+  /** The character diff of a refined chunk, null if it wasn't refined. */
+  parts: WordDiffPart[] | null = null;
+}
+
+class WordDiffResult {
+  chunks: WordDiffChunk[];
+  /** True if the timeout or edit budget ran out and the diff isn't minimal. */
+  truncated: boolean;
+}
+
+/**
+ * One hunk of a patch: the diffs of a changed region plus surrounding context.
+ */
+class PatchObject {
+  diffs: DiffObject[] = [];
+  /** Index of the hunk's first token in the old text. */
+  start1: i32 = 0;
+  /** Index of the hunk's first token in the new text. */
+  start2: i32 = 0;
+  /** Number of tokens the hunk spans in the old text. */
+  length1: i32 = 0;
+  /** Number of tokens the hunk spans in the new text. */
+  length2: i32 = 0;
+}
+
+class PatchOptions {
+  /**
+   * Number of tokens of context kept around each hunk.  More context is added
+   * when needed to make a hunk's position unambiguous.  0 means 4.
+   */
+  margin: i32 = 0;
+  /**
+   * Number of context tokens patch_apply may ignore on either side of a hunk
+   * whose context no longer matches the text.  0 means the context must match.
+   */
+  fuzz: i32 = 0;
+}
+
+class PatchResult {
+  /** The patched tokens. */
+  text: string[];
+  /** For each patch hunk, whether it could be applied. */
+  applied: boolean[];
+}
+
+class Merge3Chunk {
+  /** True if ours and theirs changed this region in different ways. */
+  conflict: boolean = false;
+  /** The merged tokens, empty for a conflict. */
+  text: string[] = [];
+  /** For a conflict, the region as it is in base. */
+  base: string[] = [];
+  /** For a conflict, the region as it is in ours. */
+  ours: string[] = [];
+  /** For a conflict, the region as it is in theirs. */
+  theirs: string[] = [];
+}
+
+class Merge3Result {
+  /** Merged regions in order, clean ones interleaved with conflicts. */
+  chunks: Merge3Chunk[];
+  /** Number of conflicting chunks. */
+  conflicts: i32;
+  /** True if either diff ran out of budget and the merge may be coarser. */
+  truncated: boolean;
+}
+
+class HtmlOptions {
+  /**
+   * Class of the <ins> elements.  Without one they get an inline background
+   * color, which survives e-mail clients that drop style sheets.
+   */
+  insertClass: string | null = null;
+  /** Class of the <del> elements, see insertClass. */
+  deleteClass: string | null = null;
+  /** Class of the <span> elements around unchanged text. */
+  equalClass: string | null = null;
+  /** Mark line breaks with a pilcrow so changed newlines stay visible. */
+  showNewlines: boolean = false;
+}
+
+/**
+ * One line of a unified diff.
+ */
+class UnifiedLine {
+  /** DIFF_EQUAL for context, DIFF_DELETE or DIFF_INSERT for a change. */
+  type: i32;
+  text: string;
+  /** False for the last line of a text that doesn't end with a newline. */
+  eol: boolean;
+}
+
+/**
+ * A changed region of base: tokens start to end are replaced by text.
+ */
+class Merge3Hunk {
+  start: i32;
+  end: i32;
+  text: string[];
+}
+
+/**
+ * The part [start, end) of a deletion or insertion not yet matched to a move.
+ */
+class MoveSegment {
+  /** Index of the tuple in diffs. */
+  diff: i32;
+  /** Number of equalities before the tuple. */
+  block: i32;
+  start: i32;
+  end: i32;
+}
+
+/**
+ * The longest run of tokens a deleted and an inserted segment have in
+ * common, a candidate move.
+ */
+class MoveCandidate {
+  deleted: MoveSegment;
+  inserted: MoveSegment;
+  /** Start of the run in the tuple of each segment. */
+  start1: i32;
+  start2: i32;
+  length: i32;
+}
+
+/**
+ * Read position in a diff: token offset into the tuple at index.
+ */
+class DiffReader {
+  diffs: DiffObject[];
+  index: i32;
+  offset: i32;
+}
+
+/**
+ * Read position in a binary delta.
+ */
+class DeltaReader {
+  bytes: Uint8Array;
+  pos: i32;
+}
+
+/**
+ * Settings and budget shared by every recursive step of a single diff.
+ */
+class DiffContext {
+  /** Value of Date.now() after which to give up, 0 for no limit. */
+  expiresAt: i64 = 0;
+  /** Remaining diff_bisect_ steps, -1 for no limit. */
+  editsLeft: i32 = -1;
+  /** Set once the budget ran out; every later step bails out as well. */
+  truncated: boolean = false;
+  /** Inputs with fewer tokens than this aren't diffed, 0 to always diff. */
+  shortcutLength: i32 = 0;
+  /** Whether long texts are diffed line by line first. */
+  lineMode: boolean = false;
+  /** The algorithm splitting the texts, see DiffAlgorithm. */
+  algorithm: DiffAlgorithm = DiffAlgorithm.Myers;
+  /** The token of every interned id, set for line mode. */
+  tokens: string[] | null = null;
+}
+
+function diff_contextFromOptions_(
+  options: DiffOptions | null
+): DiffContext | null {
+  if (
+    options === null ||
+    (options.timeout <= 0 &&
+      options.maxEdits <= 0 &&
+      options.shortcutLength <= 0 &&
+      !options.lineMode &&
+      options.algorithm === DiffAlgorithm.Myers)
+  ) {
+    return null;
+  }
+  const context = new DiffContext();
+  if (options.timeout > 0) {
+    context.expiresAt = Date.now() + (options.timeout as i64);
+  }
+  if (options.maxEdits > 0) {
+    context.editsLeft = options.maxEdits;
+  }
+  if (options.shortcutLength > 0) {
+    context.shortcutLength = options.shortcutLength;
+  }
+  context.lineMode = options.lineMode;
+  context.algorithm = options.algorithm;
+  return context;
+}
+
+/**
+ * Check whether the diff ran out of time or edit budget.
+ * @param {DiffContext} context Settings and budget of the running diff.
+ * @param {boolean} consume_edit Whether this check spends one bisect step.
+ * @return {boolean} True if the caller should bail out.
+ */
+function diff_deadlineExceeded_(
+  context: DiffContext | null,
+  consume_edit: boolean = false
+): boolean {
+  if (context === null) return false;
+  if (context.truncated) return true;
+  if (consume_edit && context.editsLeft > -1) {
+    if (context.editsLeft === 0) {
+      context.truncated = true;
+      return true;
+    }
+    context.editsLeft--;
+  }
+  if (context.expiresAt > 0 && Date.now() > context.expiresAt) {
+    context.truncated = true;
+  }
+  return context.truncated;
 }
 
 /**
@@ -55,18 +603,20 @@ class DiffObject {
  * @param {string} text1 Old string to be diffed.
  * @param {string} text2 New string to be diffed.
  * @param {Int|Object} [cursor_pos] Edit position in text1 or object with more info
+ * @param {DiffContext} [context] Settings and budget of the running diff.
  * @return {Array} Array of diff tuples.
  */
 function diff_main(
-  text1: string[],
-  text2: string[],
+  text1: i32[],
+  text2: i32[],
   cursor_pos: i32 = -1,
-  cursor_pos_obj: CursorPos | null = null
-): DiffObject[] {
-  const diffArr: DiffObject[] = [];
+  cursor_pos_obj: CursorPos | null = null,
+  context: DiffContext | null = null
+): InternedDiff[] {
+  const diffArr: InternedDiff[] = [];
   // Check for equality
-  if (strArrayEqual(text1, text2)) {
-    if (text1) {
+  if (arrayEqual(text1, text2)) {
+    if (text1.length) {
       diffArr.push({
         type: DIFF_EQUAL,
         text: text1,
@@ -75,11 +625,14 @@ function diff_main(
     return diffArr;
   }
 
-  // optimisation: just generalize diff
-  // when the array length is just less than 6
-  if (text1.length < 6 || text2.length < 6) {
-    diffArr.push({ type: DIFF_DELETE, text: text1 });
-    diffArr.push({ type: DIFF_INSERT, text: text2 });
+  // optimisation: just generalize diff when either side is short
+  if (
+    context !== null &&
+    (text1.length < context.shortcutLength ||
+      text2.length < context.shortcutLength)
+  ) {
+    if (text1.length) diffArr.push({ type: DIFF_DELETE, text: text1 });
+    if (text2.length) diffArr.push({ type: DIFF_INSERT, text: text2 });
     return diffArr;
   }
 
@@ -96,7 +649,7 @@ function diff_main(
   }
 
   // Trim off common prefix (speedup).
-  let commonlength = diff_commonPrefix(text1, text2);
+  let commonlength = diff_commonPrefix_(text1, text2);
   const commonprefix = text1.slice(0, commonlength);
   text1 = text1.slice(commonlength);
   text2 = text2.slice(commonlength);
@@ -108,7 +661,7 @@ function diff_main(
   text2 = text2.slice(0, text2.length - commonlength);
 
   // Compute the diff on the middle block.
-  const diffs = diff_compute_(text1, text2);
+  const diffs = diff_compute_(text1, text2, context);
 
   // Restore the prefix and suffix.
   if (commonprefix) {
@@ -123,8 +676,8 @@ function diff_main(
       text: commonsuffix,
     });
   }
-  diff_cleanupMerge(diffs);
-  return remove_empty_tuples(diffs);
+  diff_cleanupMerge_<i32, InternedDiff>(diffs, diff_internedTuple_);
+  return remove_empty_tuples<i32, InternedDiff>(diffs);
 }
 
 /**
@@ -132,10 +685,15 @@ function diff_main(
  * have any common prefix or suffix.
  * @param {string} text1 Old string to be diffed.
  * @param {string} text2 New string to be diffed.
+ * @param {DiffContext} context Settings and budget of the running diff.
  * @return {Array} Array of diff tuples.
  */
-function diff_compute_(text1: string[], text2: string[]): DiffObject[] {
-  let diffs: DiffObject[] = [];
+function diff_compute_(
+  text1: i32[],
+  text2: i32[],
+  context: DiffContext | null
+): InternedDiff[] {
+  let diffs: InternedDiff[] = [];
 
   if (!text1.length) {
     // Just add some text (speedup).
@@ -188,8 +746,24 @@ function diff_compute_(text1: string[], text2: string[]): DiffObject[] {
     return diffs;
   }
 
+  if (
+    context !== null &&
+    context.lineMode &&
+    text1.length >= DIFF_LINE_MODE_MIN_TOKENS &&
+    text2.length >= DIFF_LINE_MODE_MIN_TOKENS
+  ) {
+    return diff_lineMode_(text1, text2, context);
+  }
+
+  if (context !== null && context.algorithm === DiffAlgorithm.Patience) {
+    return diff_patience_(text1, text2, context);
+  }
+  if (context !== null && context.algorithm === DiffAlgorithm.Histogram) {
+    return diff_histogram_(text1, text2, context);
+  }
+
   // Check to see if the problem can be split in two.
-  const hm = diff_halfMatch_(text1, text2);
+  const hm = diff_halfMatch_(text1, text2, context);
   if (hm) {
     // A half-match was found, sort out the return data.
     const text1_a = hm[0];
@@ -198,8 +772,8 @@ function diff_compute_(text1: string[], text2: string[]): DiffObject[] {
     const text2_b = hm[3];
     const mid_common = hm[4];
     // Send both pairs off for separate processing.
-    const diffs_a = diff_main(text1_a, text2_a);
-    const diffs_b = diff_main(text1_b, text2_b);
+    const diffs_a = diff_main(text1_a, text2_a, -1, null, context);
+    const diffs_b = diff_main(text1_b, text2_b, -1, null, context);
     // Merge the results.
     return diffs_a
       .concat([
@@ -211,7 +785,202 @@ function diff_compute_(text1: string[], text2: string[]): DiffObject[] {
       .concat(diffs_b);
   }
 
-  return diff_bisect_(text1, text2);
+  return diff_bisect_(text1, text2, context);
+}
+
+/**
+ * Split the texts around the tokens that occur exactly once in both and diff
+ * the pieces in between, falling back to bisection if there are none.
+ * @param {string} text1 Old string to be diffed.
+ * @param {string} text2 New string to be diffed.
+ * @param {DiffContext} context Settings and budget of the running diff.
+ * @return {Array} Array of diff tuples.
+ */
+function diff_patience_(
+  text1: i32[],
+  text2: i32[],
+  context: DiffContext
+): InternedDiff[] {
+  const anchors = patience_anchors(text1, text2);
+  if (!anchors.length) {
+    return diff_bisect_(text1, text2, context);
+  }
+  let diffs: InternedDiff[] = [];
+  let index1: i32 = 0;
+  let index2: i32 = 0;
+  for (let x: i32 = 0; x <= anchors.length; x += 2) {
+    const anchor1 = x < anchors.length ? anchors[x] : text1.length;
+    const anchor2 = x < anchors.length ? anchors[x + 1] : text2.length;
+    // diff_main also picks up the equal tokens around each anchor.
+    diffs = diffs.concat(
+      diff_main(
+        text1.slice(index1, anchor1),
+        text2.slice(index2, anchor2),
+        -1,
+        null,
+        context
+      )
+    );
+    if (x < anchors.length) {
+      diffs.push({ type: DIFF_EQUAL, text: [text1[anchor1]] });
+    }
+    index1 = anchor1 + 1;
+    index2 = anchor2 + 1;
+  }
+  return diffs;
+}
+
+/**
+ * Split the texts around their rarest common run of tokens and diff both
+ * sides of it, falling back to bisection if every common token is too
+ * frequent.
+ * @param {string} text1 Old string to be diffed.
+ * @param {string} text2 New string to be diffed.
+ * @param {DiffContext} context Settings and budget of the running diff.
+ * @return {Array} Array of diff tuples.
+ */
+function diff_histogram_(
+  text1: i32[],
+  text2: i32[],
+  context: DiffContext
+): InternedDiff[] {
+  const anchor = histogram_anchor(text1, text2);
+  if (!anchor.length) {
+    return diff_bisect_(text1, text2, context);
+  }
+  const start1 = anchor[0];
+  const start2 = anchor[1];
+  const length = anchor[2];
+  const diffs = diff_main(
+    text1.slice(0, start1),
+    text2.slice(0, start2),
+    -1,
+    null,
+    context
+  );
+  diffs.push({
+    type: DIFF_EQUAL,
+    text: text1.slice(start1, start1 + length),
+  });
+  return diffs.concat(
+    diff_main(
+      text1.slice(start1 + length),
+      text2.slice(start2 + length),
+      -1,
+      null,
+      context
+    )
+  );
+}
+
+/**
+ * Do a quick line-level diff on both texts, then rediff the changed lines
+ * word by word.  This speedup can produce non-minimal diffs.
+ * @param {string} text1 Old string to be diffed.
+ * @param {string} text2 New string to be diffed.
+ * @param {DiffContext} context Settings and budget of the running diff.
+ * @return {Array} Array of diff tuples.
+ */
+function diff_lineMode_(
+  text1: i32[],
+  text2: i32[],
+  context: DiffContext
+): InternedDiff[] {
+  // Scan the texts into lines, each of them a single token.
+  const tokens = context.tokens!;
+  const lines = new TokenTable();
+  const starts1: i32[] = [];
+  const starts2: i32[] = [];
+  const lines1 = diff_tokensToLines_(text1, tokens, lines, starts1);
+  const lines2 = diff_tokensToLines_(text2, tokens, lines, starts2);
+
+  // Lines must not be grouped into lines again, nor changed lines while
+  // they're rediffed.
+  context.lineMode = false;
+  const diffs = diff_fromInterned_(
+    diff_main(lines1, lines2, -1, null, context),
+    lines.tokens
+  );
+  // Eliminate freak matches (e.g. blank lines)
+  diff_cleanupSemantic_(diffs);
+
+  // Convert the diff back to the original tokens and rediff all replacement
+  // blocks.
+  const result: InternedDiff[] = [];
+  let line1: i32 = 0;
+  let line2: i32 = 0;
+  let text_delete: i32[] = [];
+  let text_insert: i32[] = [];
+  for (let x: i32 = 0; x <= diffs.length; x++) {
+    if (x < diffs.length && diffs[x].type !== DIFF_EQUAL) {
+      const count = diffs[x].text.length;
+      if (diffs[x].type === DIFF_DELETE) {
+        append_tokens(
+          text_delete,
+          text1.slice(starts1[line1], starts1[line1 + count])
+        );
+        line1 += count;
+      } else {
+        append_tokens(
+          text_insert,
+          text2.slice(starts2[line2], starts2[line2 + count])
+        );
+        line2 += count;
+      }
+      continue;
+    }
+    if (text_delete.length || text_insert.length) {
+      const block = diff_main(text_delete, text_insert, -1, null, context);
+      for (let y: i32 = 0; y < block.length; y++) {
+        result.push(block[y]);
+      }
+      text_delete = [];
+      text_insert = [];
+    }
+    if (x < diffs.length) {
+      const count = diffs[x].text.length;
+      result.push({
+        type: DIFF_EQUAL,
+        text: text1.slice(starts1[line1], starts1[line1 + count]),
+      });
+      line1 += count;
+      line2 += count;
+    }
+  }
+  context.lineMode = true;
+  diff_cleanupMerge_<i32, InternedDiff>(result, diff_internedTuple_);
+  return result;
+}
+
+/**
+ * Group tokens into lines, each ending with a token that contains a line
+ * break.
+ * @param {Array.<i32>} text The interned tokens of a text.
+ * @param {Array.<string>} tokens The token of every id.
+ * @param {TokenTable} lines Ids of the lines seen so far.
+ * @param {Array.<i32>} starts Filled with the index of every line's first
+ *     token, followed by the number of tokens.
+ * @return {Array.<i32>} The interned lines.
+ */
+function diff_tokensToLines_(
+  text: i32[],
+  tokens: string[],
+  lines: TokenTable,
+  starts: i32[]
+): i32[] {
+  const text_lines: string[] = [];
+  let line = "";
+  for (let i: i32 = 0; i < text.length; i++) {
+    if (!line.length) starts.push(i);
+    const token = tokens[text[i]];
+    line += token;
+    if (token.includes("\n") || i === text.length - 1) {
+      text_lines.push(line);
+      line = "";
+    }
+  }
+  starts.push(text.length);
+  return internTokens(lines, text_lines);
 }
 
 /**
@@ -220,14 +989,19 @@ function diff_compute_(text1: string[], text2: string[]): DiffObject[] {
  * See Myers 1986 paper: An O(ND) Difference Algorithm and Its Variations.
  * @param {string} text1 Old string to be diffed.
  * @param {string} text2 New string to be diffed.
+ * @param {DiffContext} context Settings and budget of the running diff.
  * @return {Array} Array of diff tuples.
  * @private
  */
-function diff_bisect_(text1: string[], text2: string[]): DiffObject[] {
+function diff_bisect_(
+  text1: i32[],
+  text2: i32[],
+  context: DiffContext | null
+): InternedDiff[] {
   // Cache the text lengths to prevent multiple calls.
   const text1_length = text1.length;
   const text2_length = text2.length;
-  const max_d: i32 = Math.ceil((text1_length + text2_length) / 2) as i32;
+  const max_d: i32 = Math.ceil((text1_length + text2_length) / 2.0) as i32;
   const v_offset: i32 = max_d;
   const v_length: i32 = 2 * max_d;
   const v1 = new Array<i32>(v_length);
@@ -251,6 +1025,11 @@ function diff_bisect_(text1: string[], text2: string[]): DiffObject[] {
   let k2start: i32 = 0;
   let k2end: i32 = 0;
   for (let d: i32 = 0; d < max_d; d++) {
+    // Bail out if deadline is reached.
+    if (diff_deadlineExceeded_(context, true)) {
+      break;
+    }
+
     // Walk the front path one step.
     for (let k1: i32 = -d + k1start; k1 <= d - k1end; k1 += 2) {
       const k1_offset = v_offset + k1;
@@ -283,7 +1062,7 @@ function diff_bisect_(text1: string[], text2: string[]): DiffObject[] {
           const x2 = text1_length - v2[k2_offset];
           if (x1 >= x2) {
             // Overlap detected.
-            return diff_bisectSplit_(text1, text2, x1, y1);
+            return diff_bisectSplit_(text1, text2, x1, y1, context);
           }
         }
       }
@@ -323,7 +1102,7 @@ function diff_bisect_(text1: string[], text2: string[]): DiffObject[] {
           x2 = text1_length - x2;
           if (x1 >= x2) {
             // Overlap detected.
-            return diff_bisectSplit_(text1, text2, x1, y1);
+            return diff_bisectSplit_(text1, text2, x1, y1, context);
           }
         }
       }
@@ -331,7 +1110,7 @@ function diff_bisect_(text1: string[], text2: string[]): DiffObject[] {
   }
   // Diff took too long and hit the deadline or
   // i32 of diffs equals i32 of characters, no commonality at all.
-  const d: DiffObject[] = [];
+  const d: InternedDiff[] = [];
   d.push({ type: DIFF_DELETE, text: text1 });
   d.push({ type: DIFF_INSERT, text: text2 });
   return d;
@@ -344,27 +1123,29 @@ function diff_bisect_(text1: string[], text2: string[]): DiffObject[] {
  * @param {string} text2 New string to be diffed.
  * @param {i32} x Index of split point in text1.
  * @param {i32} y Index of split point in text2.
+ * @param {DiffContext} context Settings and budget of the running diff.
  * @return {Array} Array of diff tuples.
  */
 function diff_bisectSplit_(
-  text1: string[],
-  text2: string[],
+  text1: i32[],
+  text2: i32[],
   x: i32,
-  y: i32
-): DiffObject[] {
+  y: i32,
+  context: DiffContext | null
+): InternedDiff[] {
   const text1a = text1.slice(0, x);
   const text2a = text2.slice(0, y);
   const text1b = text1.slice(x);
   const text2b = text2.slice(y);
 
   // Compute both diffs serially.
-  const diffs = diff_main(text1a, text2a);
-  const diffsb = diff_main(text1b, text2b);
+  const diffs = diff_main(text1a, text2a, -1, null, context);
+  const diffsb = diff_main(text1b, text2b, -1, null, context);
 
   return diffs.concat(diffsb);
 }
 
-function strArrayEqual(arr1: string[], arr2: string[]): boolean {
+function arrayEqual<T>(arr1: T[], arr2: T[]): boolean {
   if (arr1.length !== arr2.length) return false;
   for (let index: i32 = 0; index < arr1.length; index++) {
     const s1 = arr1[index];
@@ -380,7 +1161,7 @@ function strArrayEqual(arr1: string[], arr2: string[]): boolean {
  * @param {string} text2 Second string.
  * @return {i32} The i32 of characters common to the start of each string.
  */
-export function diff_commonPrefix(text1: string[], text2: string[]): i32 {
+function diff_commonPrefix_<T>(text1: T[], text2: T[]): i32 {
   // Quick check for common null cases.
   if (!text1.length || !text2.length) {
     return 0;
@@ -393,7 +1174,7 @@ export function diff_commonPrefix(text1: string[], text2: string[]): i32 {
   let pointerstart: i32 = 0;
   while (pointermin < pointermid) {
     if (
-      strArrayEqual(
+      arrayEqual(
         text1.slice(pointerstart, pointermid),
         text2.slice(pointerstart, pointermid)
       )
@@ -413,13 +1194,17 @@ export function diff_commonPrefix(text1: string[], text2: string[]): i32 {
   return pointermid;
 }
 
+export function diff_commonPrefix(text1: string[], text2: string[]): i32 {
+  return diff_commonPrefix_<string>(text1, text2);
+}
+
 /**
  * Determine the common suffix of two strings.
  * @param {string} text1 First string.
  * @param {string} text2 Second string.
  * @return {i32} The i32 of characters common to the end of each string.
  */
-function diff_commonSuffix(text1: string[], text2: string[]): i32 {
+function diff_commonSuffix<T>(text1: T[], text2: T[]): i32 {
   // Quick check for common null cases.
   if (
     !text1.length ||
@@ -436,7 +1221,7 @@ function diff_commonSuffix(text1: string[], text2: string[]): i32 {
   let pointerend: i32 = 0;
   while (pointermin < pointermid) {
     if (
-      strArrayEqual(
+      arrayEqual(
         text1.slice(text1.length - pointermid, text1.length - pointerend),
         text2.slice(text2.length - pointermid, text2.length - pointerend)
       )
@@ -457,16 +1242,78 @@ function diff_commonSuffix(text1: string[], text2: string[]): i32 {
 }
 
 /**
- * Do the two texts share a substring which is at least half the length of the
- * longer text?
+ * Determine if the suffix of one token array is the prefix of another.
+ * @param {string} text1 First tokens.
+ * @param {string} text2 Second tokens.
+ * @return {i32} The number of tokens common to the end of the first
+ *     array and the start of the second array.
+ * @private
+ */
+function diff_commonOverlap_(text1: string[], text2: string[]): i32 {
+  // Cache the text lengths to prevent multiple calls.
+  const text1_length = text1.length;
+  const text2_length = text2.length;
+  // Eliminate the null case.
+  if (text1_length == 0 || text2_length == 0) {
+    return 0;
+  }
+  // Truncate the longer array.
+  if (text1_length > text2_length) {
+    text1 = text1.slice(text1_length - text2_length);
+  } else if (text1_length < text2_length) {
+    text2 = text2.slice(0, text1_length);
+  }
+  const text_length: i32 = Math.min(text1_length, text2_length) as i32;
+  // Quick check for the worst case.
+  if (arrayEqual(text1, text2)) {
+    return text_length;
+  }
+
+  // Start by looking for a single token match
+  // and increase length until no match is found.
+  // Performance analysis: https://neil.fraser.name/news/2010/11/04/
+  let best: i32 = 0;
+  let length: i32 = 1;
+  while (true) {
+    const pattern = text1.slice(text_length - length);
+    const found = arrayIndexOf(text2, pattern);
+    if (found == -1) {
+      return best;
+    }
+    length += found;
+    if (
+      found == 0 ||
+      arrayEqual(text1.slice(text_length - length), text2.slice(0, length))
+    ) {
+      best = length;
+      length++;
+    }
+  }
+}
+
+/**
+ * Do the two texts share a substring which is at least half the length of the
+ * longer text?
  * This speedup can produce non-minimal diffs.
  * @param {string} text1 First string.
  * @param {string} text2 Second string.
+ * @param {DiffContext} context Settings and budget of the running diff.
  * @return {Array.<string>} Five element Array, containing the prefix of
  *     text1, the suffix of text1, the prefix of text2, the suffix of
  *     text2 and the common middle.  Or null if there was no match.
  */
-function diff_halfMatch_(text1: string[], text2: string[]): string[][] | null {
+function diff_halfMatch_(
+  text1: i32[],
+  text2: i32[],
+  context: DiffContext | null
+): i32[][] | null {
+  if (context === null || (context.expiresAt === 0 && context.editsLeft < 0)) {
+    // Don't risk returning a non-optimal diff if we have unlimited time.
+    return null;
+  }
+  if (diff_deadlineExceeded_(context)) {
+    return null; // Out of budget, let diff_bisect_ give up.
+  }
   const longtext = text1.length > text2.length ? text1 : text2;
   const shorttext = text1.length > text2.length ? text2 : text1;
   if (longtext.length < 4 || shorttext.length * 2 < longtext.length) {
@@ -480,29 +1327,34 @@ function diff_halfMatch_(text1: string[], text2: string[]): string[][] | null {
    * @param {string} longtext Longer string.
    * @param {string} shorttext Shorter string.
    * @param {i32} i Start index of quarter length substring within longtext.
+   * @param {DiffContext} context Settings and budget of the running diff.
    * @return {Array.<string>} Five element Array, containing the prefix of
    *     longtext, the suffix of longtext, the prefix of shorttext, the suffix
    *     of shorttext and the common middle.  Or null if there was no match.
    * @private
    */
   function diff_halfMatchI_(
-    longtext: string[],
-    shorttext: string[],
-    i: i32
-  ): string[][] | null {
+    longtext: i32[],
+    shorttext: i32[],
+    i: i32,
+    context: DiffContext | null
+  ): i32[][] | null {
     // Start with a 1/4 length substring at position i as a seed.
     const seed = longtext.slice(
       i,
       i + (Math.floor(longtext.length / 4) as i32)
     );
     let j = -1;
-    let best_common: string[] = [];
-    let best_longtext_a: string[] = [];
-    let best_longtext_b: string[] = [];
-    let best_shorttext_a: string[] = [];
-    let best_shorttext_b: string[] = [];
+    let best_common: i32[] = [];
+    let best_longtext_a: i32[] = [];
+    let best_longtext_b: i32[] = [];
+    let best_shorttext_a: i32[] = [];
+    let best_shorttext_b: i32[] = [];
     while ((j = arrayIndexOf(shorttext, seed, j + 1)) !== -1) {
-      const prefixLength = diff_commonPrefix(
+      if (diff_deadlineExceeded_(context)) {
+        return null;
+      }
+      const prefixLength = diff_commonPrefix_(
         longtext.slice(i),
         shorttext.slice(j)
       );
@@ -537,15 +1389,17 @@ function diff_halfMatch_(text1: string[], text2: string[]): string[][] | null {
   const hm1 = diff_halfMatchI_(
     longtext,
     shorttext,
-    Math.ceil(longtext.length / 4) as i32
+    Math.ceil(longtext.length / 4) as i32,
+    context
   );
   // Check again based on the third quarter.
   const hm2 = diff_halfMatchI_(
     longtext,
     shorttext,
-    Math.ceil(longtext.length / 2) as i32
+    Math.ceil(longtext.length / 2) as i32,
+    context
   );
-  let hm: string[][] | null = null;
+  let hm: i32[][] | null = null;
   if (!hm1 && !hm2) {
     return null;
   } else if (!hm2) {
@@ -563,10 +1417,10 @@ function diff_halfMatch_(text1: string[], text2: string[]): string[][] | null {
   }
 
   // A half-match was found, sort out the return data.
-  let text1_a: string[];
-  let text1_b: string[];
-  let text2_a: string[];
-  let text2_b: string[];
+  let text1_a: i32[];
+  let text1_b: i32[];
+  let text2_a: i32[];
+  let text2_b: i32[];
   if (text1.length > text2.length) {
     text1_a = hm[0];
     text1_b = hm[1];
@@ -582,21 +1436,472 @@ function diff_halfMatch_(text1: string[], text2: string[]): string[][] | null {
   return [text1_a, text1_b, text2_a, text2_b, mid_common];
 }
 
+/**
+ * Reduce the number of edits by eliminating semantically trivial equalities.
+ * @param {Array} diffs Array of diff tuples, modified in place.
+ */
+function diff_cleanupSemantic_(diffs: DiffObject[]): void {
+  let changes = false;
+  const equalities: i32[] = []; // Stack of indices where equalities are found.
+  let lastEquality: string[] | null = null;
+  // Always equal to diffs[equalities[equalities.length - 1]].text
+  let pointer: i32 = 0; // Index of current position.
+  // Number of tokens that changed prior to the equality.
+  let length_insertions1: i32 = 0;
+  let length_deletions1: i32 = 0;
+  // Number of tokens that changed after the equality.
+  let length_insertions2: i32 = 0;
+  let length_deletions2: i32 = 0;
+  while (pointer < diffs.length) {
+    if (diffs[pointer].type === DIFF_EQUAL) {
+      // Equality found.
+      equalities.push(pointer);
+      length_insertions1 = length_insertions2;
+      length_deletions1 = length_deletions2;
+      length_insertions2 = 0;
+      length_deletions2 = 0;
+      lastEquality = diffs[pointer].text;
+    } else {
+      // An insertion or deletion.
+      if (diffs[pointer].type === DIFF_INSERT) {
+        length_insertions2 += diffs[pointer].text.length;
+      } else {
+        length_deletions2 += diffs[pointer].text.length;
+      }
+      // Eliminate an equality that is smaller or equal to the edits on both
+      // sides of it.
+      if (
+        lastEquality !== null &&
+        lastEquality.length > 0 &&
+        lastEquality.length <=
+          (Math.max(length_insertions1, length_deletions1) as i32) &&
+        lastEquality.length <=
+          (Math.max(length_insertions2, length_deletions2) as i32)
+      ) {
+        const index = equalities[equalities.length - 1];
+        // Duplicate record.
+        splice_diffs<DiffObject>(diffs, index, 0, [
+          diff_tuple_(DIFF_DELETE, lastEquality),
+        ]);
+        // Change second copy to insert.
+        diffs[index + 1].type = DIFF_INSERT;
+        // Throw away the equality we just deleted.
+        equalities.pop();
+        // Throw away the previous equality (it needs to be reevaluated).
+        if (equalities.length) equalities.pop();
+        pointer = equalities.length ? equalities[equalities.length - 1] : -1;
+        length_insertions1 = 0; // Reset the counters.
+        length_deletions1 = 0;
+        length_insertions2 = 0;
+        length_deletions2 = 0;
+        lastEquality = null;
+        changes = true;
+      }
+    }
+    pointer++;
+  }
+
+  // Normalize the diff.
+  if (changes) {
+    diff_cleanupMerge_<string, DiffObject>(diffs, diff_tuple_);
+  }
+  diff_cleanupSemanticLossless_(diffs);
+
+  // Find any overlaps between deletions and insertions.
+  // e.g: <del>abcxxx</del><ins>xxxdef</ins>
+  //   -> <del>abc</del>xxx<ins>def</ins>
+  // e.g: <del>xxxabc</del><ins>defxxx</ins>
+  //   -> <ins>def</ins>xxx<del>abc</del>
+  // Only extract an overlap if it is as big as the edit ahead or behind it.
+  pointer = 1;
+  while (pointer < diffs.length) {
+    if (
+      diffs[pointer - 1].type === DIFF_DELETE &&
+      diffs[pointer].type === DIFF_INSERT
+    ) {
+      const deletion = diffs[pointer - 1].text;
+      const insertion = diffs[pointer].text;
+      const overlap_length1 = diff_commonOverlap_(deletion, insertion);
+      const overlap_length2 = diff_commonOverlap_(insertion, deletion);
+      if (overlap_length1 >= overlap_length2) {
+        if (
+          overlap_length1 * 2 >= deletion.length ||
+          overlap_length1 * 2 >= insertion.length
+        ) {
+          // Overlap found.  Insert an equality and trim the surrounding edits.
+          splice_diffs<DiffObject>(diffs, pointer, 0, [
+            diff_tuple_(DIFF_EQUAL, insertion.slice(0, overlap_length1)),
+          ]);
+          diffs[pointer - 1].text = deletion.slice(
+            0,
+            deletion.length - overlap_length1
+          );
+          diffs[pointer + 1].text = insertion.slice(overlap_length1);
+          pointer++;
+        }
+      } else {
+        if (
+          overlap_length2 * 2 >= deletion.length ||
+          overlap_length2 * 2 >= insertion.length
+        ) {
+          // Reverse overlap found.
+          // Insert an equality and swap and trim the surrounding edits.
+          splice_diffs<DiffObject>(diffs, pointer, 0, [
+            diff_tuple_(DIFF_EQUAL, deletion.slice(0, overlap_length2)),
+          ]);
+          diffs[pointer - 1].type = DIFF_INSERT;
+          diffs[pointer - 1].text = insertion.slice(
+            0,
+            insertion.length - overlap_length2
+          );
+          diffs[pointer + 1].type = DIFF_DELETE;
+          diffs[pointer + 1].text = deletion.slice(overlap_length2);
+          pointer++;
+        }
+      }
+      pointer++;
+    }
+    pointer++;
+  }
+  // An overlap covering a whole edit leaves an empty tuple behind.
+  const cleaned = remove_empty_tuples<string, DiffObject>(diffs);
+  if (cleaned.length !== diffs.length) {
+    splice_diffs<DiffObject>(diffs, 0, diffs.length, cleaned);
+  }
+}
+
+/**
+ * Look for single edits surrounded on both sides by equalities
+ * which can be shifted sideways to align the edit to a word boundary.
+ * e.g: The c<ins>at c</ins>ame. -> The <ins>cat </ins>came.
+ * With word tokens the edit already sits on word boundaries, so this mostly
+ * moves whitespace and punctuation tokens to the end of the edit and keeps
+ * edits from splitting blank lines.
+ * @param {Array} diffs Array of diff tuples, modified in place.
+ */
+function diff_cleanupSemanticLossless_(diffs: DiffObject[]): void {
+  let pointer: i32 = 1;
+  // Intentionally ignore the first and last element (don't need checking).
+  while (pointer < diffs.length - 1) {
+    if (
+      diffs[pointer - 1].type === DIFF_EQUAL &&
+      diffs[pointer + 1].type === DIFF_EQUAL
+    ) {
+      // This is a single edit surrounded by equalities.
+      let equality1 = diffs[pointer - 1].text;
+      let edit = diffs[pointer].text;
+      let equality2 = diffs[pointer + 1].text;
+
+      // First, shift the edit as far left as possible.
+      const commonOffset = diff_commonSuffix(equality1, edit);
+      if (commonOffset) {
+        const commonString = edit.slice(edit.length - commonOffset);
+        equality1 = equality1.slice(0, equality1.length - commonOffset);
+        edit = commonString.concat(edit.slice(0, edit.length - commonOffset));
+        equality2 = commonString.concat(equality2);
+      }
+
+      // Second, step token by token right, looking for the best fit.
+      // Since the edit can only slide over tokens equal to its own, the
+      // shifted edit is a rotation of the original one and the shift count
+      // is enough to describe each candidate.
+      const edit_length = edit.length;
+      let shift: i32 = 0;
+      let bestShift: i32 = 0;
+      let bestScore = diff_cleanupSemanticShiftScore_(
+        equality1,
+        edit,
+        equality2,
+        0
+      );
+      while (
+        shift < equality2.length &&
+        edit[shift % edit_length] === equality2[shift]
+      ) {
+        shift++;
+        const score = diff_cleanupSemanticShiftScore_(
+          equality1,
+          edit,
+          equality2,
+          shift
+        );
+        // The >= encourages trailing rather than leading whitespace on edits.
+        if (score >= bestScore) {
+          bestScore = score;
+          bestShift = shift;
+        }
+      }
+
+      if (bestShift !== commonOffset) {
+        // We have an improvement, save it back to the diff.
+        const bestEquality1 = equality1.concat(equality2.slice(0, bestShift));
+        const rotation = bestShift % edit_length;
+        const bestEdit = edit.slice(rotation).concat(edit.slice(0, rotation));
+        const bestEquality2 = equality2.slice(bestShift);
+        if (bestEquality1.length) {
+          diffs[pointer - 1].text = bestEquality1;
+        } else {
+          diffs.splice(pointer - 1, 1);
+          pointer--;
+        }
+        diffs[pointer].text = bestEdit;
+        if (bestEquality2.length) {
+          diffs[pointer + 1].text = bestEquality2;
+        } else {
+          diffs.splice(pointer + 1, 1);
+          pointer--;
+        }
+      }
+    }
+    pointer++;
+  }
+}
+
+/**
+ * Score both boundaries of an edit after sliding it shift tokens to the right.
+ * @param {string} equality1 Tokens before the unshifted edit.
+ * @param {string} edit Tokens of the unshifted edit.
+ * @param {string} equality2 Tokens after the unshifted edit.
+ * @param {i32} shift Number of tokens the edit was moved to the right.
+ * @return {i32} The combined score of both boundaries.
+ */
+function diff_cleanupSemanticShiftScore_(
+  equality1: string[],
+  edit: string[],
+  equality2: string[],
+  shift: i32
+): i32 {
+  const edit_length = edit.length;
+  // The last token of the shifted edit, which is also the last token of the
+  // shifted equality1 unless nothing was shifted.
+  const edit_last = edit[(shift + edit_length - 1) % edit_length];
+  const before: string | null =
+    shift > 0
+      ? edit_last
+      : equality1.length
+      ? equality1[equality1.length - 1]
+      : null;
+  const after: string | null =
+    shift < equality2.length ? equality2[shift] : null;
+  return (
+    diff_cleanupSemanticScore_(before, edit[shift % edit_length]) +
+    diff_cleanupSemanticScore_(edit_last, after)
+  );
+}
+
+/**
+ * Given the tokens on either side of a boundary, compute a score representing
+ * whether the boundary falls on logical boundaries.
+ * Scores range from 6 (best) to 0 (worst).
+ * @param {string} one Token before the boundary, null at the start of text.
+ * @param {string} two Token after the boundary, null at the end of text.
+ * @return {i32} The score.
+ */
+function diff_cleanupSemanticScore_(
+  one: string | null,
+  two: string | null
+): i32 {
+  if (one === null || two === null || !one.length || !two.length) {
+    // Edges are the best.
+    return 6;
+  }
+
+  // Each port of this function behaves slightly differently due to
+  // subtle differences in each language's definition of things like
+  // 'whitespace'.  Since this function's purpose is largely cosmetic,
+  // the choice has been made to use each language's native features
+  // rather than force total conformity.
+  const char1 = one.charCodeAt(one.length - 1);
+  const char2 = two.charCodeAt(0);
+  const nonAlphaNumeric1 = !is_alphanumeric(char1);
+  const nonAlphaNumeric2 = !is_alphanumeric(char2);
+  const whitespace1 = nonAlphaNumeric1 && is_whitespace(char1);
+  const whitespace2 = nonAlphaNumeric2 && is_whitespace(char2);
+  const lineBreak1 = whitespace1 && is_linebreak(char1);
+  const lineBreak2 = whitespace2 && is_linebreak(char2);
+  const blankLine1 = lineBreak1 && ends_with_blank_line(one);
+  const blankLine2 = lineBreak2 && starts_with_blank_line(two);
+
+  if (blankLine1 || blankLine2) {
+    // Five points for blank lines.
+    return 5;
+  } else if (lineBreak1 || lineBreak2) {
+    // Four points for line breaks.
+    return 4;
+  } else if (nonAlphaNumeric1 && !whitespace1 && whitespace2) {
+    // Three points for end of sentences.
+    return 3;
+  } else if (whitespace1 || whitespace2) {
+    // Two points for whitespace.
+    return 2;
+  } else if (nonAlphaNumeric1 || nonAlphaNumeric2) {
+    // One point for non-alphanumeric.
+    return 1;
+  }
+  return 0;
+}
+
+function is_alphanumeric(c: i32): boolean {
+  return (
+    (c >= 0x30 && c <= 0x39) ||
+    (c >= 0x41 && c <= 0x5a) ||
+    (c >= 0x61 && c <= 0x7a) ||
+    (c >= 0x80 && !is_whitespace(c))
+  );
+}
+
+function is_linebreak(c: i32): boolean {
+  return c === 0x0a || c === 0x0d;
+}
+
+/**
+ * Equivalent of /\n\r?\n$/.test(text)
+ */
+function ends_with_blank_line(text: string): boolean {
+  // String#endsWith returns asc's bool, hence the if.
+  if (text.endsWith("\n\n") || text.endsWith("\n\r\n")) return true;
+  return false;
+}
+
+/**
+ * Equivalent of /^\r?\n\r?\n/.test(text)
+ */
+function starts_with_blank_line(text: string): boolean {
+  if (
+    text.startsWith("\n\n") ||
+    text.startsWith("\n\r\n") ||
+    text.startsWith("\r\n\n") ||
+    text.startsWith("\r\n\r\n")
+  ) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Reduce the number of edits by eliminating operationally trivial equalities.
+ * @param {Array} diffs Array of diff tuples, modified in place.
+ * @param {i32} edit_cost Cost of an empty edit operation in terms of tokens.
+ */
+function diff_cleanupEfficiency_(diffs: DiffObject[], edit_cost: i32): void {
+  let changes = false;
+  const equalities: i32[] = []; // Stack of indices where equalities are found.
+  let lastEquality: string[] | null = null;
+  // Always equal to diffs[equalities[equalities.length - 1]].text
+  let pointer: i32 = 0; // Index of current position.
+  // Is there an insertion operation before the last equality.
+  let pre_ins = false;
+  // Is there a deletion operation before the last equality.
+  let pre_del = false;
+  // Is there an insertion operation after the last equality.
+  let post_ins = false;
+  // Is there a deletion operation after the last equality.
+  let post_del = false;
+  while (pointer < diffs.length) {
+    if (diffs[pointer].type === DIFF_EQUAL) {
+      // Equality found.
+      if (diffs[pointer].text.length < edit_cost && (post_ins || post_del)) {
+        // Candidate found.
+        equalities.push(pointer);
+        pre_ins = post_ins;
+        pre_del = post_del;
+        lastEquality = diffs[pointer].text;
+      } else {
+        // Not a candidate, and can never become one.
+        equalities.length = 0;
+        lastEquality = null;
+      }
+      post_ins = post_del = false;
+    } else {
+      // An insertion or deletion.
+      if (diffs[pointer].type === DIFF_DELETE) {
+        post_del = true;
+      } else {
+        post_ins = true;
+      }
+      /*
+       * Five types to be split:
+       * <ins>A</ins><del>B</del>XY<ins>C</ins><del>D</del>
+       * <ins>A</ins>X<ins>C</ins><del>D</del>
+       * <ins>A</ins><del>B</del>X<ins>C</ins>
+       * <ins>A</del>X<ins>C</ins><del>D</del>
+       * <ins>A</ins><del>B</del>X<del>C</del>
+       */
+      if (
+        lastEquality !== null &&
+        lastEquality.length > 0 &&
+        ((pre_ins && pre_del && post_ins && post_del) ||
+          (lastEquality.length * 2 < edit_cost &&
+            i32(pre_ins) + i32(pre_del) + i32(post_ins) + i32(post_del) == 3))
+      ) {
+        const index = equalities[equalities.length - 1];
+        // Duplicate record.
+        splice_diffs<DiffObject>(diffs, index, 0, [
+          diff_tuple_(DIFF_DELETE, lastEquality),
+        ]);
+        // Change second copy to insert.
+        diffs[index + 1].type = DIFF_INSERT;
+        equalities.pop(); // Throw away the equality we just deleted;
+        lastEquality = null;
+        if (pre_ins && pre_del) {
+          // No changes made which could affect previous entry, keep going.
+          post_ins = post_del = true;
+          equalities.length = 0;
+        } else {
+          if (equalities.length) {
+            equalities.pop(); // Throw away the previous equality.
+          }
+          pointer = equalities.length ? equalities[equalities.length - 1] : -1;
+          post_ins = post_del = false;
+        }
+        changes = true;
+      }
+    }
+    pointer++;
+  }
+
+  if (changes) {
+    diff_cleanupMerge_<string, DiffObject>(diffs, diff_tuple_);
+  }
+}
+
+/**
+ * Make a diff tuple, with its offsets left at 0.
+ * @param {i32} type Operation of the tuple.
+ * @param {Array.<string>} text Tokens of the tuple.
+ * @return {DiffObject} The tuple.
+ */
+function diff_tuple_(type: i32, text: string[]): DiffObject {
+  return { type, text, start1: 0, end1: 0, start2: 0, end2: 0 };
+}
+
+/**
+ * Make a diff tuple of interned tokens.
+ * @param {i32} type Operation of the tuple.
+ * @param {Array.<i32>} text Interned tokens of the tuple.
+ * @return {InternedDiff} The tuple.
+ */
+function diff_internedTuple_(type: i32, text: i32[]): InternedDiff {
+  return { type, text };
+}
+
 /**
  * Reorder and merge like edit sections.  Merge equalities.
  * Any edit section can move as long as it doesn't cross an equality.
  * @param {Array} diffs Array of diff tuples.
+ * @param {function(i32, Array): Object} make_tuple Makes a tuple of the
+ *     type diffs holds.
  */
-function diff_cleanupMerge(diffs: DiffObject[]): void {
-  diffs.push({
-    type: DIFF_EQUAL,
-    text: [],
-  }); // Add a dummy entry at the end.
+function diff_cleanupMerge_<T, D extends DiffTuple<T>>(
+  diffs: D[],
+  make_tuple: (type: i32, text: T[]) => D
+): void {
+  diffs.push(make_tuple(DIFF_EQUAL, [])); // Add a dummy entry at the end.
   let pointer: i32 = 0;
   let count_delete: i32 = 0;
   let count_insert: i32 = 0;
-  let text_delete: string[] = [];
-  let text_insert: string[] = [];
+  let text_delete: T[] = [];
+  let text_insert: T[] = [];
   let commonlength: i32;
   while (pointer < diffs.length) {
     if (pointer < diffs.length - 1 && !diffs[pointer].text.length) {
@@ -625,17 +1930,16 @@ function diff_cleanupMerge(diffs: DiffObject[]): void {
           // note that diff_commonPrefix and diff_commonSuffix are unicode-aware
           if (text_delete.length > 0 && text_insert.length > 0) {
             // Factor out any common prefixes.
-            commonlength = diff_commonPrefix(text_insert, text_delete);
+            commonlength = diff_commonPrefix_(text_insert, text_delete);
             if (commonlength !== 0) {
               if (previous_equality >= 0) {
                 diffs[previous_equality].text = diffs[
                   previous_equality
                 ].text.concat(text_insert.slice(0, commonlength));
               } else {
-                diffs.unshift({
-                  type: DIFF_EQUAL,
-                  text: text_insert.slice(0, commonlength),
-                });
+                diffs.unshift(
+                  make_tuple(DIFF_EQUAL, text_insert.slice(0, commonlength))
+                );
                 pointer++;
               }
               text_insert = text_insert.slice(commonlength);
@@ -663,41 +1967,20 @@ function diff_cleanupMerge(diffs: DiffObject[]): void {
             diffs.splice(pointer - n, n);
             pointer = pointer - n;
           } else if (text_delete.length === 0) {
-            // ORIGINAL:
-            // diffs.splice(pointer - n, n, [DIFF_INSERT, text_insert]);
-            diffs = diffs
-              .slice(0, pointer - n)
-              .concat([
-                {
-                  type: DIFF_INSERT,
-                  text: text_insert,
-                },
-              ])
-              .concat(diffs.slice(pointer));
+            splice_diffs<D>(diffs, pointer - n, n, [
+              make_tuple(DIFF_INSERT, text_insert),
+            ]);
             pointer = pointer - n + 1;
           } else if (text_insert.length === 0) {
-            // ORIGINAL:
-            // diffs.splice(pointer - n, n, [DIFF_DELETE, text_delete]);
-            diffs = diffs
-              .slice(0, pointer - n)
-              .concat([{ type: DIFF_DELETE, text: text_delete }])
-              .concat(diffs.slice(pointer));
+            splice_diffs<D>(diffs, pointer - n, n, [
+              make_tuple(DIFF_DELETE, text_delete),
+            ]);
             pointer = pointer - n + 1;
           } else {
-            // ORIGINAL:
-            // diffs.splice(
-            //   pointer - n,
-            //   n,
-            //   [DIFF_DELETE, text_delete],
-            //   [DIFF_INSERT, text_insert]
-            // );
-            diffs = diffs
-              .slice(0, pointer)
-              .concat([
-                { type: DIFF_DELETE, text: text_delete },
-                { type: DIFF_INSERT, text: text_insert },
-              ])
-              .concat(diffs.slice(pointer));
+            splice_diffs<D>(diffs, pointer - n, n, [
+              make_tuple(DIFF_DELETE, text_delete),
+              make_tuple(DIFF_INSERT, text_insert),
+            ]);
             pointer = pointer - n + 2;
           }
         }
@@ -734,7 +2017,7 @@ function diff_cleanupMerge(diffs: DiffObject[]): void {
     ) {
       // This is a single edit surrounded by equalities.
       if (
-        strArrayEqual(
+        arrayEqual(
           diffs[pointer].text.slice(
             diffs[pointer].text.length - diffs[pointer - 1].text.length
           ),
@@ -754,7 +2037,7 @@ function diff_cleanupMerge(diffs: DiffObject[]): void {
         diffs.splice(pointer - 1, 1);
         changes = true;
       } else if (
-        strArrayEqual(
+        arrayEqual(
           diffs[pointer].text.slice(0, diffs[pointer + 1].text.length),
           diffs[pointer + 1].text
         )
@@ -774,12 +2057,35 @@ function diff_cleanupMerge(diffs: DiffObject[]): void {
   }
   // If shifts were made, the diff needs reordering and another shift sweep.
   if (changes) {
-    diff_cleanupMerge(diffs);
+    diff_cleanupMerge_<T, D>(diffs, make_tuple);
+  }
+}
+
+/**
+ * In-place equivalent of JavaScript's diffs.splice(start, count, ...items),
+ * which AssemblyScript's Array#splice doesn't support.
+ * @param {Array} diffs Array of diff tuples, modified in place.
+ * @param {i32} start Index of the first tuple to remove.
+ * @param {i32} delete_count Number of tuples to remove.
+ * @param {Array} items Tuples to insert at start.
+ */
+function splice_diffs<D>(
+  diffs: D[],
+  start: i32,
+  delete_count: i32,
+  items: D[]
+): void {
+  const tail = diffs.splice(start);
+  for (let i: i32 = 0; i < items.length; i++) {
+    diffs.push(items[i]);
+  }
+  for (let i: i32 = delete_count; i < tail.length; i++) {
+    diffs.push(tail[i]);
   }
 }
 
-function remove_empty_tuples(tuples: DiffObject[]): DiffObject[] {
-  const ret: DiffObject[] = [];
+function remove_empty_tuples<T, D extends DiffTuple<T>>(tuples: D[]): D[] {
+  const ret: D[] = [];
   for (let i: i32 = 0; i < tuples.length; i++) {
     if (tuples[i].text.length > 0) {
       ret.push(tuples[i]);
@@ -789,15 +2095,15 @@ function remove_empty_tuples(tuples: DiffObject[]): DiffObject[] {
 }
 
 function make_edit_splice(
-  before: string[],
-  oldMiddle: string[],
-  newMiddle: string[],
-  after: string[]
-): DiffObject[] {
+  before: i32[],
+  oldMiddle: i32[],
+  newMiddle: i32[],
+  after: i32[]
+): InternedDiff[] {
   // if (ends_with_pair_start(before) || starts_with_pair_end(after)) {
   //   return null;
   // }
-  return remove_empty_tuples([
+  return remove_empty_tuples<i32, InternedDiff>([
     { type: DIFF_EQUAL, text: before },
     { type: DIFF_DELETE, text: oldMiddle },
     { type: DIFF_INSERT, text: newMiddle },
@@ -806,11 +2112,11 @@ function make_edit_splice(
 }
 
 function find_cursor_edit_diff(
-  oldText: string[],
-  newText: string[],
+  oldText: i32[],
+  newText: i32[],
   cursor_pos: i32 = -1,
   cursor_pos_obj: CursorPos | null = null
-): DiffObject[] | null {
+): InternedDiff[] | null {
   if (cursor_pos < 0 && cursor_pos_obj === null)
     throw new Error("Cursor position is required!");
   // note: this runs after equality check has ruled out exact equality
@@ -827,8 +2133,8 @@ function find_cursor_edit_diff(
       ? cursor_pos_obj.newRange
       : null;
 
-  if (oldRange === null || newRange === null)
-    throw new Error("Programming error: oldRange or newRange is null!");
+  if (oldRange === null)
+    throw new Error("Programming error: oldRange is null!");
 
   // take into account the old and new selection to generate the best diff
   // possible for a text edit.  for example, a text change from "xxx" to "xx"
@@ -853,13 +2159,13 @@ function find_cursor_edit_diff(
       }
       const newBefore = newText.slice(0, newCursor);
       const newAfter = newText.slice(newCursor);
-      if (newAfter !== oldAfter) {
+      if (!arrayEqual(newAfter, oldAfter)) {
         break;
       }
       const prefixLength: i32 = Math.min(oldCursor, newCursor) as i32;
       const oldPrefix = oldBefore.slice(0, prefixLength);
       const newPrefix = newBefore.slice(0, prefixLength);
-      if (oldPrefix !== newPrefix) {
+      if (!arrayEqual(oldPrefix, newPrefix)) {
         break;
       }
       const oldMiddle = oldBefore.slice(prefixLength);
@@ -874,7 +2180,7 @@ function find_cursor_edit_diff(
       const cursor = oldCursor;
       const newBefore = newText.slice(0, cursor);
       const newAfter = newText.slice(cursor);
-      if (newBefore !== oldBefore) {
+      if (!arrayEqual(newBefore, oldBefore)) {
         break;
       }
       const suffixLength: i32 = Math.min(
@@ -883,7 +2189,7 @@ function find_cursor_edit_diff(
       ) as i32;
       const oldSuffix = oldAfter.slice(oldAfter.length - suffixLength);
       const newSuffix = newAfter.slice(newAfter.length - suffixLength);
-      if (oldSuffix !== newSuffix) {
+      if (!arrayEqual(oldSuffix, newSuffix)) {
         break;
       }
       const oldMiddle = oldAfter.slice(0, oldAfter.length - suffixLength);
@@ -903,7 +2209,10 @@ function find_cursor_edit_diff(
       }
       const newPrefix = newText.slice(0, prefixLength);
       const newSuffix = newText.slice(newLength - suffixLength);
-      if (oldPrefix !== newPrefix || oldSuffix !== newSuffix) {
+      if (
+        !arrayEqual(oldPrefix, newPrefix) ||
+        !arrayEqual(oldSuffix, newSuffix)
+      ) {
         break;
       }
       const oldMiddle = oldText.slice(prefixLength, oldLength - suffixLength);
@@ -915,43 +2224,2548 @@ function find_cursor_edit_diff(
   return null;
 }
 
-export function diff(text1: string[], text2: string[]): DiffObject[] {
-  // only pass fix_unicode=true at the top level, not when diff_main is
-  // recursively invoked
-  return diff_main(text1, text2);
+/**
+ * Compute and return the source text (all equalities and deletions).
+ * @param {Array} diffs Array of diff tuples.
+ * @return {Array.<string>} Source text.
+ */
+export function diff_text1(diffs: DiffObject[]): string[] {
+  const text: string[] = [];
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    if (diffs[x].type !== DIFF_INSERT) {
+      append_tokens(text, diffs[x].text);
+    }
+  }
+  return text;
 }
 
-export function worddiff(text1: string, text2: string): Map<string, string>[] {
-  // only pass fix_unicode=true at the top level, not when diff_main is
-  // recursively invoked
-  const diffArr = diff_main(text1.split(" "), text2.split(" "));
+/**
+ * Compute and return the destination text (all equalities and insertions).
+ * @param {Array} diffs Array of diff tuples.
+ * @return {Array.<string>} Destination text.
+ */
+export function diff_text2(diffs: DiffObject[]): string[] {
+  const text: string[] = [];
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    if (diffs[x].type !== DIFF_DELETE) {
+      append_tokens(text, diffs[x].text);
+    }
+  }
+  return text;
+}
 
-  const r: Map<string, string>[] = [];
+/**
+ * Throw unless the source text of diffs is text1 and their destination text
+ * is text2.
+ * @param {Array} diffs Array of diff tuples.
+ * @param {Array.<string>} text1 Old tokens.
+ * @param {Array.<string>} text2 New tokens.
+ */
+export function diff_validate(
+  diffs: DiffObject[],
+  text1: string[],
+  text2: string[]
+): void {
+  diff_validate_(diffs, text1, text2, false);
+}
 
-  for (let index: i32 = 0; index < diffArr.length; index++) {
-    const m = diffArr[index];
-    const diffType = m.type;
-    const result = m.text;
-    const text = result.join(" ");
-    const map = new Map<string, string>();
-    switch (diffType) {
-      case DIFF_EQUAL: {
-        map.set("text", text);
-        break;
+/**
+ * Throw unless the source text of diffs is text1 and their destination text
+ * is text2.
+ * @param {Array} diffs Array of diff tuples.
+ * @param {Array.<string>} text1 Old tokens.
+ * @param {Array.<string>} text2 New tokens.
+ * @param {boolean} keyed Whether the diff was made on comparison keys: its
+ *     equalities hold the tokens of text1, which are only counted in text2.
+ */
+function diff_validate_(
+  diffs: DiffObject[],
+  text1: string[],
+  text2: string[],
+  keyed: boolean
+): void {
+  let index1: i32 = 0;
+  let index2: i32 = 0;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const tokens = diffs[x].text;
+    const type = diffs[x].type;
+    for (let i: i32 = 0; i < tokens.length; i++) {
+      if (type !== DIFF_INSERT) {
+        if (index1 >= text1.length || text1[index1] !== tokens[i]) {
+          throw new Error("diff doesn't rebuild text1 at " + index1.toString());
+        }
+        index1++;
       }
-      case DIFF_DELETE: {
-        map.set("remove", text);
-        break;
+      if (type !== DIFF_DELETE) {
+        if (
+          index2 >= text2.length ||
+          (!(keyed && type === DIFF_EQUAL) && text2[index2] !== tokens[i])
+        ) {
+          throw new Error("diff doesn't rebuild text2 at " + index2.toString());
+        }
+        index2++;
       }
-      case DIFF_INSERT: {
-        map.set("add", text);
+    }
+  }
+  if (index1 !== text1.length) {
+    throw new Error("diff doesn't rebuild text1 at " + index1.toString());
+  }
+  if (index2 !== text2.length) {
+    throw new Error("diff doesn't rebuild text2 at " + index2.toString());
+  }
+}
+
+/**
+ * Compute the Levenshtein distance; the number of inserted, deleted or
+ * substituted tokens.
+ * @param {Array} diffs Array of diff tuples.
+ * @return {i32} Number of changes.
+ */
+function diff_levenshtein(diffs: DiffObject[]): i32 {
+  let levenshtein: i32 = 0;
+  let insertions: i32 = 0;
+  let deletions: i32 = 0;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const op = diffs[x].type;
+    const data = diffs[x].text;
+    switch (op) {
+      case DIFF_INSERT:
+        insertions += data.length;
+        break;
+      case DIFF_DELETE:
+        deletions += data.length;
+        break;
+      case DIFF_EQUAL:
+        // A deletion and an insertion is one substitution.
+        levenshtein += Math.max(insertions, deletions) as i32;
+        insertions = 0;
+        deletions = 0;
         break;
+    }
+  }
+  levenshtein += Math.max(insertions, deletions) as i32;
+  return levenshtein;
+}
+
+function append_tokens<T>(target: T[], tokens: T[]): void {
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    target.push(tokens[i]);
+  }
+}
+
+/**
+ * Swap the roles of text1 and text2, turning a diff into its undo.
+ * @param {Array} diffs Array of diff tuples.
+ * @return {Array} Array of diff tuples from text2 to text1.
+ */
+function diff_invert_(diffs: DiffObject[]): DiffObject[] {
+  const inverted: DiffObject[] = [];
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    inverted.push(diff_tuple_(-diffs[x].type, diffs[x].text.slice()));
+  }
+  diff_cleanupMerge_<string, DiffObject>(inverted, diff_tuple_);
+  diff_setOffsets_(inverted);
+  return inverted;
+}
+
+/**
+ * Combine a diff from text1 to text2 and a diff from text2 to text3 into a
+ * diff from text1 to text3.
+ * @param {Array} diffs1 Array of diff tuples from text1 to text2.
+ * @param {Array} diffs2 Array of diff tuples from text2 to text3.
+ * @return {Array} Array of diff tuples from text1 to text3.
+ */
+function diff_compose_(
+  diffs1: DiffObject[],
+  diffs2: DiffObject[]
+): DiffObject[] {
+  const composed: DiffObject[] = [];
+  const reader1: DiffReader = { diffs: diffs1, index: 0, offset: 0 };
+  const reader2: DiffReader = { diffs: diffs2, index: 0, offset: 0 };
+  while (true) {
+    const type1 = diff_readerType_(reader1);
+    const type2 = diff_readerType_(reader2);
+    if (type1 === DIFF_DELETE) {
+      // Deleted before the second diff ever saw it.
+      composed.push(diff_tuple_(DIFF_DELETE, diff_readerTake_(reader1)));
+    } else if (type2 === DIFF_INSERT) {
+      composed.push(diff_tuple_(DIFF_INSERT, diff_readerTake_(reader2)));
+    } else if (type1 === DIFF_NONE && type2 === DIFF_NONE) {
+      break;
+    } else if (type1 === DIFF_NONE || type2 === DIFF_NONE) {
+      throw new Error("diffs don't compose: text2 and text1 differ in length");
+    } else {
+      // Both diffs cover the same tokens of text2.
+      const n = Math.min(
+        diff_readerLeft_(reader1),
+        diff_readerLeft_(reader2)
+      ) as i32;
+      const text = diff_readerTake_(reader1, n);
+      if (!arrayEqual(text, diff_readerTake_(reader2, n))) {
+        throw new Error("diffs don't compose: text2 and text1 differ");
+      }
+      if (type2 === DIFF_DELETE) {
+        // An insertion deleted again leaves nothing.
+        if (type1 === DIFF_EQUAL) composed.push(diff_tuple_(DIFF_DELETE, text));
+      } else {
+        composed.push(diff_tuple_(type1, text));
+      }
+    }
+  }
+  diff_cleanupMerge_<string, DiffObject>(composed, diff_tuple_);
+  diff_setOffsets_(composed);
+  return composed;
+}
+
+/**
+ * Rebase a diff onto a concurrent diff of the same text1, so that it applies
+ * to the text2 of the other diff and keeps the other diff's changes.
+ * @param {Array} diffs Array of diff tuples to rebase.
+ * @param {Array} other Array of diff tuples applied first.
+ * @param {boolean} insert_first Whether an insertion of diffs goes before an
+ *     insertion of other at the same position.
+ * @return {Array} Array of diff tuples from the text2 of other.
+ */
+function diff_transform_(
+  diffs: DiffObject[],
+  other: DiffObject[],
+  insert_first: boolean
+): DiffObject[] {
+  const transformed: DiffObject[] = [];
+  const reader: DiffReader = { diffs, index: 0, offset: 0 };
+  const other_reader: DiffReader = { diffs: other, index: 0, offset: 0 };
+  while (true) {
+    const type = diff_readerType_(reader);
+    const other_type = diff_readerType_(other_reader);
+    if (type === DIFF_INSERT && (other_type !== DIFF_INSERT || insert_first)) {
+      transformed.push(diff_tuple_(DIFF_INSERT, diff_readerTake_(reader)));
+    } else if (other_type === DIFF_INSERT) {
+      // Keep what the other diff inserted.
+      transformed.push(diff_tuple_(DIFF_EQUAL, diff_readerTake_(other_reader)));
+    } else if (type === DIFF_NONE && other_type === DIFF_NONE) {
+      break;
+    } else if (type === DIFF_NONE || other_type === DIFF_NONE) {
+      throw new Error("diffs don't transform: text1 differs in length");
+    } else {
+      // Both diffs cover the same tokens of text1.
+      const n = Math.min(
+        diff_readerLeft_(reader),
+        diff_readerLeft_(other_reader)
+      ) as i32;
+      const text = diff_readerTake_(reader, n);
+      if (!arrayEqual(text, diff_readerTake_(other_reader, n))) {
+        throw new Error("diffs don't transform: text1 differs");
       }
-      default:
-        throw new Error("unknown diff type: " + diffType.toString());
+      // Tokens the other diff deleted are gone already.
+      if (other_type === DIFF_EQUAL) transformed.push(diff_tuple_(type, text));
     }
-    r.push(map);
   }
+  diff_cleanupMerge_<string, DiffObject>(transformed, diff_tuple_);
+  diff_setOffsets_(transformed);
+  return transformed;
+}
+
+/**
+ * The type of the tuple a reader is in, skipping empty tuples.
+ * @param {DiffReader} reader The reader.
+ * @return {i32} The type, or DIFF_NONE at the end of the diffs.
+ */
+function diff_readerType_(reader: DiffReader): i32 {
+  while (
+    reader.index < reader.diffs.length &&
+    reader.offset >= reader.diffs[reader.index].text.length
+  ) {
+    reader.index++;
+    reader.offset = 0;
+  }
+  return reader.index < reader.diffs.length
+    ? reader.diffs[reader.index].type
+    : DIFF_NONE;
+}
+
+/**
+ * Number of tokens left in the tuple a reader is in.
+ */
+function diff_readerLeft_(reader: DiffReader): i32 {
+  return reader.diffs[reader.index].text.length - reader.offset;
+}
+
+/**
+ * Read the next n tokens of the tuple a reader is in, by default all of them.
+ */
+function diff_readerTake_(reader: DiffReader, n: i32 = -1): string[] {
+  const text = reader.diffs[reader.index].text;
+  const end = n < 0 ? text.length : reader.offset + n;
+  const tokens = text.slice(reader.offset, end);
+  reader.offset = end;
+  return tokens;
+}
 
-  return r;
+/**
+ * Increase the context until it is unique,
+ * but don't let the pattern expand beyond the text.
+ * @param {PatchObject} patch The patch to grow.
+ * @param {Array.<string>} text Source text.
+ * @param {i32} margin Number of context tokens to add on each side.
+ */
+function patch_addContext_(
+  patch: PatchObject,
+  text: string[],
+  margin: i32
+): void {
+  if (text.length == 0) {
+    return;
+  }
+  let padding: i32 = 0;
+  let start: i32 = patch.start2;
+  let end: i32 = patch.start2 + patch.length1;
+  let pattern = text.slice(start, end);
+  // Look for the first occurrence, then check if there is a second one.
+  while (
+    (start > 0 || end < text.length) &&
+    arrayIndexOf(text, pattern, arrayIndexOf(text, pattern) + 1) !== -1
+  ) {
+    padding += margin;
+    start = Math.max(0, patch.start2 - padding) as i32;
+    end = Math.min(text.length, patch.start2 + patch.length1 + padding) as i32;
+    pattern = text.slice(start, end);
+  }
+  // Add one chunk for good luck.
+  padding += margin;
+
+  // Add the prefix.
+  const prefix = text.slice(
+    Math.max(0, patch.start2 - padding) as i32,
+    patch.start2
+  );
+  if (prefix.length) {
+    patch.diffs.unshift(diff_tuple_(DIFF_EQUAL, prefix));
+  }
+  // Add the suffix.
+  const suffix = text.slice(
+    patch.start2 + patch.length1,
+    patch.start2 + patch.length1 + padding
+  );
+  if (suffix.length) {
+    patch.diffs.push(diff_tuple_(DIFF_EQUAL, suffix));
+  }
+
+  // Roll back the start points.
+  patch.start1 -= prefix.length;
+  patch.start2 -= prefix.length;
+  // Extend the lengths.
+  patch.length1 += prefix.length + suffix.length;
+  patch.length2 += prefix.length + suffix.length;
+}
+
+/**
+ * Compute a list of patches to turn text1 into text2.
+ * @param {Array.<string>} text1 Old text.
+ * @param {Array} diffs Array of diff tuples for text1 to text2.
+ * @param {i32} margin Number of context tokens around each hunk.
+ * @return {Array.<PatchObject>} Array of Patch objects.
+ */
+function patch_make_(
+  text1: string[],
+  diffs: DiffObject[],
+  margin: i32
+): PatchObject[] {
+  const patches: PatchObject[] = [];
+  if (diffs.length === 0) {
+    return patches; // Get rid of the null case.
+  }
+  let patch = new PatchObject();
+  let char_count1: i32 = 0; // Number of tokens into the text1 string.
+  let char_count2: i32 = 0; // Number of tokens into the text2 string.
+  // Start with text1 (prepatch_text) and apply the diffs until we arrive at
+  // text2 (postpatch_text).  We recreate the patches one by one to determine
+  // context info.
+  let prepatch_text = text1;
+  let postpatch_text = text1;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const diff_type = diffs[x].type;
+    const diff_text = diffs[x].text;
+
+    if (!patch.diffs.length && diff_type !== DIFF_EQUAL) {
+      // A new patch starts here.
+      patch.start1 = char_count1;
+      patch.start2 = char_count2;
+    }
+
+    switch (diff_type) {
+      case DIFF_INSERT:
+        patch.diffs.push(diffs[x]);
+        patch.length2 += diff_text.length;
+        postpatch_text = postpatch_text
+          .slice(0, char_count2)
+          .concat(diff_text)
+          .concat(postpatch_text.slice(char_count2));
+        break;
+      case DIFF_DELETE:
+        patch.length1 += diff_text.length;
+        patch.diffs.push(diffs[x]);
+        postpatch_text = postpatch_text
+          .slice(0, char_count2)
+          .concat(postpatch_text.slice(char_count2 + diff_text.length));
+        break;
+      case DIFF_EQUAL:
+        if (
+          diff_text.length <= 2 * margin &&
+          patch.diffs.length &&
+          diffs.length != x + 1
+        ) {
+          // Small equality inside a patch.
+          patch.diffs.push(diffs[x]);
+          patch.length1 += diff_text.length;
+          patch.length2 += diff_text.length;
+        } else if (diff_text.length >= 2 * margin) {
+          // Time for a new patch.
+          if (patch.diffs.length) {
+            patch_addContext_(patch, prepatch_text, margin);
+            patches.push(patch);
+            patch = new PatchObject();
+            // Unlike Unidiff, our patch lists have a rolling context.
+            // https://github.com/google/diff-match-patch/wiki/Unidiff
+            // Update prepatch text & pos to reflect the application of the
+            // just completed patch.  Take a copy: asc's shadow stack pass
+            // doesn't store a local assigned from another local, counting on
+            // the other one's slot, so once postpatch_text moves on, nothing
+            // the GC sees holds the array.
+            prepatch_text = postpatch_text.slice();
+            char_count1 = char_count2;
+          }
+        }
+        break;
+    }
+
+    // Update the current character count.
+    if (diff_type !== DIFF_INSERT) {
+      char_count1 += diff_text.length;
+    }
+    if (diff_type !== DIFF_DELETE) {
+      char_count2 += diff_text.length;
+    }
+  }
+  // Pick up the leftover patch if not empty.
+  if (patch.diffs.length) {
+    patch_addContext_(patch, prepatch_text, margin);
+    patches.push(patch);
+  }
+
+  return patches;
+}
+
+/**
+ * Locate pattern in text, preferring the occurrence closest to loc.
+ * @param {Array.<string>} text The text to search.
+ * @param {Array.<string>} pattern The pattern to search for.
+ * @param {i32} loc The location to search around.
+ * @return {i32} Best match index or -1.
+ */
+function patch_locate_(text: string[], pattern: string[], loc: i32): i32 {
+  if (!pattern.length) {
+    // Nothing left to anchor on, trust the expected location.
+    return Math.min(Math.max(0, loc), text.length) as i32;
+  }
+  let before: i32 = -1;
+  let after = arrayIndexOf(text, pattern);
+  while (after !== -1 && after < loc) {
+    before = after;
+    after = arrayIndexOf(text, pattern, after + 1);
+  }
+  if (before === -1) return after;
+  if (after === -1 || loc - before <= after - loc) return before;
+  return after;
+}
+
+/**
+ * Merge a set of patches onto the text.  Return a patched text, as well
+ * as a list of true/false values indicating which patches were applied.
+ * @param {Array.<PatchObject>} patches Array of Patch objects.
+ * @param {Array.<string>} text Old text.
+ * @param {i32} fuzz Number of context tokens that may be ignored on either
+ *     side of a hunk.
+ * @return {PatchResult} The new text and which patches were applied.
+ */
+function patch_apply_(
+  patches: PatchObject[],
+  text: string[],
+  fuzz: i32
+): PatchResult {
+  const applied: boolean[] = [];
+  // delta keeps track of the offset between the expected and actual location
+  // of the previous patch.  If there are patches expected at positions 10 and
+  // 20, but the first patch was found at 12, delta is 2 and the second patch
+  // has an effective expected position of 22.
+  let delta: i32 = 0;
+  for (let x: i32 = 0; x < patches.length; x++) {
+    const patch = patches[x];
+    const diffs = patch.diffs;
+    const expected_loc = patch.start2 + delta;
+    const text1 = diff_text1(diffs);
+    const text2 = diff_text2(diffs);
+    // Context tokens on either side, which text1 and text2 share.
+    const lead =
+      diffs.length && diffs[0].type === DIFF_EQUAL ? diffs[0].text.length : 0;
+    const trail =
+      diffs.length > 1 && diffs[diffs.length - 1].type === DIFF_EQUAL
+        ? diffs[diffs.length - 1].text.length
+        : 0;
+
+    let start_loc: i32 = -1;
+    let skip_lead: i32 = 0;
+    let skip_trail: i32 = 0;
+    // Try the full context first, then drop one token from each side at a
+    // time, like patch(1) does.
+    for (let f: i32 = 0; f <= fuzz && start_loc === -1; f++) {
+      skip_lead = Math.min(f, lead) as i32;
+      skip_trail = Math.min(f, trail) as i32;
+      if (f > 0 && skip_lead < f && skip_trail < f) {
+        break; // No context left to drop.
+      }
+      start_loc = patch_locate_(
+        text,
+        text1.slice(skip_lead, text1.length - skip_trail),
+        expected_loc + skip_lead
+      );
+    }
+
+    if (start_loc === -1) {
+      // No match found.  :(
+      applied.push(false);
+      // Subtract the delta for this failed patch from subsequent patches.
+      delta -= patch.length2 - patch.length1;
+    } else {
+      // Found a match.  :)
+      applied.push(true);
+      delta = start_loc - skip_lead - expected_loc;
+      text = text
+        .slice(0, start_loc)
+        .concat(text2.slice(skip_lead, text2.length - skip_trail))
+        .concat(text.slice(start_loc + text1.length - skip_lead - skip_trail));
+    }
+  }
+  return { text, applied };
+}
+
+/**
+ * Collect the changed regions of a diff, in base coordinates.
+ * @param {Array} diffs Array of diff tuples from base.
+ * @return {Array.<Merge3Hunk>} The hunks in order.
+ */
+function merge3_hunks_(diffs: DiffObject[]): Merge3Hunk[] {
+  const hunks: Merge3Hunk[] = [];
+  let base_index: i32 = 0;
+  let x: i32 = 0;
+  while (x < diffs.length) {
+    if (diffs[x].type === DIFF_EQUAL) {
+      base_index += diffs[x].text.length;
+      x++;
+      continue;
+    }
+    // diff_cleanupMerge leaves at most one deletion and one insertion
+    // between two equalities.
+    const start = base_index;
+    const text: string[] = [];
+    while (x < diffs.length && diffs[x].type !== DIFF_EQUAL) {
+      if (diffs[x].type === DIFF_DELETE) {
+        base_index += diffs[x].text.length;
+      } else {
+        append_tokens(text, diffs[x].text);
+      }
+      x++;
+    }
+    hunks.push({ start, end: base_index, text });
+  }
+  return hunks;
+}
+
+/**
+ * Apply the hunks from index from to index to onto a region of base.
+ * @param {Array.<string>} base The common ancestor.
+ * @param {i32} start Start of the region in base.
+ * @param {i32} end End of the region in base.
+ * @param {Array.<Merge3Hunk>} hunks Hunks of one side.
+ * @param {i32} from Index of the first hunk inside the region.
+ * @param {i32} to Index after the last hunk inside the region.
+ * @return {Array.<string>} The region as that side has it.
+ */
+function merge3_region_(
+  base: string[],
+  start: i32,
+  end: i32,
+  hunks: Merge3Hunk[],
+  from: i32,
+  to: i32
+): string[] {
+  const text: string[] = [];
+  let pos = start;
+  for (let i = from; i < to; i++) {
+    append_tokens(text, base.slice(pos, hunks[i].start));
+    append_tokens(text, hunks[i].text);
+    pos = hunks[i].end;
+  }
+  append_tokens(text, base.slice(pos, end));
+  return text;
+}
+
+/**
+ * Append merged tokens, extending the previous chunk if it is clean too.
+ * @param {Array.<Merge3Chunk>} chunks The merge result so far.
+ * @param {Array.<string>} tokens The tokens to add.
+ */
+function merge3_pushClean_(chunks: Merge3Chunk[], tokens: string[]): void {
+  if (!tokens.length) {
+    return;
+  }
+  if (chunks.length && !chunks[chunks.length - 1].conflict) {
+    append_tokens(chunks[chunks.length - 1].text, tokens);
+    return;
+  }
+  const chunk = new Merge3Chunk();
+  append_tokens(chunk.text, tokens);
+  chunks.push(chunk);
+}
+
+/**
+ * Merge the changes base->ours and base->theirs.  Changes that overlap or
+ * touch in base are grouped; a group changed by only one side, or changed
+ * the same way by both, merges cleanly, anything else is a conflict.
+ * @param {Array.<string>} base The common ancestor.
+ * @param {Array.<Merge3Hunk>} ours Hunks of base->ours.
+ * @param {Array.<Merge3Hunk>} theirs Hunks of base->theirs.
+ * @return {Array.<Merge3Chunk>} The merged chunks.
+ */
+function merge3_(
+  base: string[],
+  ours: Merge3Hunk[],
+  theirs: Merge3Hunk[]
+): Merge3Chunk[] {
+  const chunks: Merge3Chunk[] = [];
+  let pos: i32 = 0;
+  let i: i32 = 0;
+  let j: i32 = 0;
+  while (i < ours.length || j < theirs.length) {
+    // Start a group at the earliest hunk of either side.
+    const i_start = i;
+    const j_start = j;
+    let group_start: i32;
+    let group_end: i32;
+    if (
+      j >= theirs.length ||
+      (i < ours.length && ours[i].start <= theirs[j].start)
+    ) {
+      group_start = ours[i].start;
+      group_end = ours[i].end;
+      i++;
+    } else {
+      group_start = theirs[j].start;
+      group_end = theirs[j].end;
+      j++;
+    }
+    // Pull in every hunk that overlaps or touches the group, until it
+    // stops growing.
+    let grown = true;
+    while (grown) {
+      grown = false;
+      while (i < ours.length && ours[i].start <= group_end) {
+        group_end = Math.max(group_end, ours[i].end) as i32;
+        i++;
+        grown = true;
+      }
+      while (j < theirs.length && theirs[j].start <= group_end) {
+        group_end = Math.max(group_end, theirs[j].end) as i32;
+        j++;
+        grown = true;
+      }
+    }
+
+    merge3_pushClean_(chunks, base.slice(pos, group_start));
+    const ours_text = merge3_region_(
+      base,
+      group_start,
+      group_end,
+      ours,
+      i_start,
+      i
+    );
+    const theirs_text = merge3_region_(
+      base,
+      group_start,
+      group_end,
+      theirs,
+      j_start,
+      j
+    );
+    if (j === j_start || arrayEqual(ours_text, theirs_text)) {
+      merge3_pushClean_(chunks, ours_text);
+    } else if (i === i_start) {
+      merge3_pushClean_(chunks, theirs_text);
+    } else {
+      const chunk = new Merge3Chunk();
+      chunk.conflict = true;
+      chunk.base = base.slice(group_start, group_end);
+      chunk.ours = ours_text;
+      chunk.theirs = theirs_text;
+      chunks.push(chunk);
+    }
+    pos = group_end;
+  }
+  merge3_pushClean_(chunks, base.slice(pos));
+  return chunks;
+}
+
+/**
+ * Escape the characters that are special in HTML text and attribute values.
+ * @param {string} text Raw text.
+ * @return {string} The text, safe to put between tags or in quotes.
+ */
+function html_escape(text: string): string {
+  const parts: string[] = [];
+  let start: i32 = 0;
+  for (let i: i32 = 0; i < text.length; i++) {
+    let entity: string | null = null;
+    switch (text.charCodeAt(i)) {
+      case 0x26: // &
+        entity = "&amp;";
+        break;
+      case 0x3c: // <
+        entity = "&lt;";
+        break;
+      case 0x3e: // >
+        entity = "&gt;";
+        break;
+      case 0x22: // "
+        entity = "&quot;";
+        break;
+      case 0x27: // '
+        entity = "&#39;";
+        break;
+    }
+    if (entity !== null) {
+      parts.push(text.substring(start, i));
+      parts.push(entity);
+      start = i + 1;
+    }
+  }
+  if (!start) {
+    return text;
+  }
+  parts.push(text.substring(start));
+  return parts.join("");
+}
+
+/**
+ * Build an opening tag with either a class or an inline style.
+ * @param {string} tag Element name.
+ * @param {string|null} class_name Class chosen by the caller, if any.
+ * @param {string} style Inline style to use without a class.
+ * @return {string} The opening tag.
+ */
+function html_openTag(
+  tag: string,
+  class_name: string | null,
+  style: string
+): string {
+  if (class_name !== null) {
+    return "<" + tag + ' class="' + html_escape(class_name) + '">';
+  }
+  if (style.length) {
+    return "<" + tag + ' style="' + style + '">';
+  }
+  return "<" + tag + ">";
+}
+
+/**
+ * Convert a diff array into a pretty HTML report.
+ * @param {Array} diffs Array of diff tuples.
+ * @param {HtmlOptions} options Markup to use.
+ * @return {string} HTML representation.
+ */
+function diff_prettyHtml_(diffs: DiffObject[], options: HtmlOptions): string {
+  const newline = options.showNewlines ? "&para;<br>" : "<br>";
+  const ins = html_openTag("ins", options.insertClass, "background:#e6ffe6;");
+  const del = html_openTag("del", options.deleteClass, "background:#ffe6e6;");
+  const span = html_openTag("span", options.equalClass, "");
+  const html: string[] = [];
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    // Not String#replaceAll: when it runs out of room it doubles its buffer
+    // once, however long the replacement is, and writes past the end, e.g.
+    // for "\n\n" -> "&para;<br>&para;<br>" (std/assembly/string.ts).
+    const text = html_escape(diffs[x].text.join("")).split("\n").join(newline);
+    switch (diffs[x].type) {
+      case DIFF_INSERT:
+        html.push(ins + text + "</ins>");
+        break;
+      case DIFF_DELETE:
+        html.push(del + text + "</del>");
+        break;
+      case DIFF_EQUAL:
+        html.push(span + text + "</span>");
+        break;
+    }
+  }
+  return html.join("");
+}
+
+/**
+ * Render a diff like git diff --word-diff=plain: [-removed-]{+added+}.
+ * @param {Array} diffs Array of diff tuples.
+ * @return {string} The text with deletions and insertions marked inline.
+ */
+function diff_toWordDiffPlain_(diffs: DiffObject[]): string {
+  const text: string[] = [];
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const data = diffs[x].text.join("");
+    switch (diffs[x].type) {
+      case DIFF_INSERT:
+        text.push("{+" + data + "+}");
+        break;
+      case DIFF_DELETE:
+        text.push("[-" + data + "-]");
+        break;
+      case DIFF_EQUAL:
+        text.push(data);
+        break;
+    }
+  }
+  return text.join("");
+}
+
+/**
+ * Render a diff like git diff --word-diff=porcelain: one run per line,
+ * prefixed with ' ', '-' or '+', and a line holding just '~' for every
+ * newline of the input.
+ * @param {Array} diffs Array of diff tuples.
+ * @return {string} The runs, one per line.
+ */
+function diff_toWordDiffPorcelain_(diffs: DiffObject[]): string {
+  const text: string[] = [];
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const prefix =
+      diffs[x].type === DIFF_INSERT
+        ? "+"
+        : diffs[x].type === DIFF_DELETE
+        ? "-"
+        : " ";
+    const segments = diffs[x].text.join("").split("\n");
+    for (let k: i32 = 0; k < segments.length; k++) {
+      if (k > 0) {
+        text.push("~\n");
+      }
+      if (segments[k].length) {
+        text.push(prefix + segments[k] + "\n");
+      }
+    }
+  }
+  return text.join("");
+}
+
+/**
+ * Turn a token diff into the lines of a line-based diff.  A line that any
+ * token change touches is reported as deleted from text1 and inserted into
+ * text2; untouched lines are context.
+ * @param {Array} diffs Array of diff tuples.
+ * @return {Array.<UnifiedLine>} The lines in unified diff order.
+ */
+function diff_unifiedLines_(diffs: DiffObject[]): UnifiedLine[] {
+  const lines: UnifiedLine[] = [];
+  // Lines completed on one side only since both sides last ended a line.
+  const old_lines: string[] = [];
+  const new_lines: string[] = [];
+  let old_line = "";
+  let new_line = "";
+  let changed = false;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const type = diffs[x].type;
+    const segments = diffs[x].text.join("").split("\n");
+    for (let k: i32 = 0; k < segments.length; k++) {
+      if (k > 0) {
+        // A newline ends the current line of the sides this diff covers.
+        if (type !== DIFF_INSERT) {
+          old_lines.push(old_line);
+          old_line = "";
+        }
+        if (type !== DIFF_DELETE) {
+          new_lines.push(new_line);
+          new_line = "";
+        }
+        if (type === DIFF_EQUAL) {
+          diff_unifiedFlush_(
+            lines,
+            old_lines,
+            new_lines,
+            changed,
+            false,
+            false
+          );
+          changed = false;
+        }
+      }
+      if (segments[k].length) {
+        if (type !== DIFF_INSERT) old_line += segments[k];
+        if (type !== DIFF_DELETE) new_line += segments[k];
+        if (type !== DIFF_EQUAL) changed = true;
+      }
+      if (type !== DIFF_EQUAL && k > 0) changed = true;
+    }
+  }
+  // Whatever is left doesn't end with a newline.
+  const old_partial = old_line.length > 0;
+  const new_partial = new_line.length > 0;
+  if (old_partial) old_lines.push(old_line);
+  if (new_partial) new_lines.push(new_line);
+  diff_unifiedFlush_(
+    lines,
+    old_lines,
+    new_lines,
+    changed,
+    old_partial,
+    new_partial
+  );
+  return lines;
+}
+
+/**
+ * Move the pending lines of both sides to the output, as context if nothing
+ * changed or as deletions followed by insertions.
+ * @param {Array.<UnifiedLine>} lines The output.
+ * @param {Array.<string>} old_lines Pending lines of text1, emptied.
+ * @param {Array.<string>} new_lines Pending lines of text2, emptied.
+ * @param {boolean} changed Whether any token of the pending lines changed.
+ * @param {boolean} old_partial Whether the last line of text1 has no newline.
+ * @param {boolean} new_partial Whether the last line of text2 has no newline.
+ */
+function diff_unifiedFlush_(
+  lines: UnifiedLine[],
+  old_lines: string[],
+  new_lines: string[],
+  changed: boolean,
+  old_partial: boolean,
+  new_partial: boolean
+): void {
+  for (let i: i32 = 0; i < old_lines.length; i++) {
+    lines.push({
+      type: changed ? DIFF_DELETE : DIFF_EQUAL,
+      text: old_lines[i],
+      eol: !old_partial || i < old_lines.length - 1,
+    });
+  }
+  if (changed) {
+    for (let i: i32 = 0; i < new_lines.length; i++) {
+      lines.push({
+        type: DIFF_INSERT,
+        text: new_lines[i],
+        eol: !new_partial || i < new_lines.length - 1,
+      });
+    }
+  }
+  old_lines.length = 0;
+  new_lines.length = 0;
+}
+
+/**
+ * Format a hunk range the way diff -u does.
+ * @param {i32} before Number of lines before the hunk.
+ * @param {i32} count Number of lines in the hunk.
+ * @return {string} "start,count", or just "start" for a single line.
+ */
+function diff_unifiedRange_(before: i32, count: i32): string {
+  if (count === 1) {
+    return (before + 1).toString();
+  }
+  if (count === 0) {
+    // An empty range refers to the line before it.
+    return before.toString() + ",0";
+  }
+  return (before + 1).toString() + "," + count.toString();
+}
+
+/**
+ * Render a diff as unified diff hunks (without the ---/+++ file header).
+ * @param {Array} diffs Array of diff tuples.
+ * @param {i32} context Number of unchanged lines around each change.
+ * @return {string} The hunks, each starting with an @@ line.
+ */
+function diff_toUnified_(diffs: DiffObject[], context: i32): string {
+  const lines = diff_unifiedLines_(diffs);
+  const text: string[] = [];
+  // Line numbers before lines[i], in text1 and text2.
+  let old_before: i32 = 0;
+  let new_before: i32 = 0;
+  let i: i32 = 0;
+  while (i < lines.length) {
+    if (lines[i].type === DIFF_EQUAL) {
+      old_before++;
+      new_before++;
+      i++;
+      continue;
+    }
+    // Found a change: back up over the leading context.
+    let start = Math.max(0, i - context) as i32;
+    old_before -= i - start;
+    new_before -= i - start;
+    // Extend the hunk over changes separated by at most 2 * context lines.
+    let end = i;
+    let equal_run: i32 = 0;
+    while (end < lines.length && equal_run <= 2 * context) {
+      if (lines[end].type === DIFF_EQUAL) {
+        equal_run++;
+      } else {
+        equal_run = 0;
+      }
+      end++;
+    }
+    // Trim the trailing context down to the limit.
+    end -= Math.max(0, equal_run - context) as i32;
+
+    let old_count: i32 = 0;
+    let new_count: i32 = 0;
+    for (let j = start; j < end; j++) {
+      if (lines[j].type !== DIFF_INSERT) old_count++;
+      if (lines[j].type !== DIFF_DELETE) new_count++;
+    }
+    text.push(
+      "@@ -" +
+        diff_unifiedRange_(old_before, old_count) +
+        " +" +
+        diff_unifiedRange_(new_before, new_count) +
+        " @@\n"
+    );
+    for (let j = start; j < end; j++) {
+      const line = lines[j];
+      const prefix =
+        line.type === DIFF_INSERT ? "+" : line.type === DIFF_DELETE ? "-" : " ";
+      text.push(prefix + line.text + "\n");
+      if (!line.eol) {
+        text.push("\\ No newline at end of file\n");
+      }
+    }
+    old_before += old_count;
+    new_before += new_count;
+    i = end;
+  }
+  return text.join("");
+}
+
+/**
+ * Crush the diff into an encoded string which describes the operations
+ * required to transform text1 into text2.
+ * E.g. =3\t-2\t+ing,s  -> Keep 3 tokens, delete 2 tokens, insert 'ing' and
+ * 's'.  Inserted tokens are separated by commas, with any '%', ',', tab or
+ * line break in them %xx escaped.
+ * @param {Array} diffs Array of diff tuples.
+ * @return {string} Delta text.
+ */
+function diff_toDelta_(diffs: DiffObject[]): string {
+  const text: string[] = [];
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const tokens = diffs[x].text;
+    // Empty tuples can't be told apart from a single empty token.
+    if (!tokens.length) continue;
+    switch (diffs[x].type) {
+      case DIFF_INSERT: {
+        const escaped = new Array<string>(tokens.length);
+        for (let i: i32 = 0; i < tokens.length; i++) {
+          escaped[i] = delta_escape_(tokens[i]);
+        }
+        text.push("+" + escaped.join(","));
+        break;
+      }
+      case DIFF_DELETE:
+        text.push("-" + tokens.length.toString());
+        break;
+      case DIFF_EQUAL:
+        text.push("=" + tokens.length.toString());
+        break;
+    }
+  }
+  return text.join("\t");
+}
+
+/**
+ * Given the original text1, and an encoded string which describes the
+ * operations required to transform text1 into text2, compute the full diff.
+ * @param {Array.<string>} text1 Source tokens for the diff.
+ * @param {string} delta Delta text.
+ * @return {Array} Array of diff tuples.
+ */
+function diff_fromDelta_(text1: string[], delta: string): DiffObject[] {
+  const diffs: DiffObject[] = [];
+  // Cursor in text1
+  let pointer: i32 = 0;
+  const tokens = delta.split("\t");
+  for (let x: i32 = 0; x < tokens.length; x++) {
+    // Each token begins with a one character parameter which specifies the
+    // operation of this token (delete, insert, equality).
+    const param = tokens[x].substring(1);
+    const op = tokens[x].charAt(0);
+    if (op == "+") {
+      const inserted = param.split(",");
+      for (let i: i32 = 0; i < inserted.length; i++) {
+        inserted[i] = delta_unescape_(inserted[i]);
+      }
+      diffs.push(diff_tuple_(DIFF_INSERT, inserted));
+    } else if (op == "-" || op == "=") {
+      const n = delta_parseCount_(param);
+      if (n <= 0 || n > text1.length - pointer) {
+        throw new Error("invalid number in diff_fromDelta: " + param);
+      }
+      const text = text1.slice(pointer, pointer + n);
+      pointer += n;
+      diffs.push(diff_tuple_(op == "=" ? DIFF_EQUAL : DIFF_DELETE, text));
+    } else if (tokens[x].length) {
+      // Anything else is an error.
+      throw new Error("invalid diff operation in diff_fromDelta: " + op);
+    }
+  }
+  if (pointer != text1.length) {
+    throw new Error(
+      "delta length (" +
+        pointer.toString() +
+        ") does not equal source text length (" +
+        text1.length.toString() +
+        ")"
+    );
+  }
+  diff_setOffsets_(diffs);
+  return diffs;
+}
+
+/**
+ * Escape the characters of a token that have a meaning in a delta.
+ * @param {string} token The token.
+ * @return {string} The token with '%', ',', tab and line breaks as %xx.
+ */
+function delta_escape_(token: string): string {
+  const parts: string[] = [];
+  let start: i32 = 0;
+  for (let i: i32 = 0; i < token.length; i++) {
+    const c = token.charCodeAt(i);
+    if (c == 0x25 || c == 0x2c || c == 0x09 || c == 0x0a || c == 0x0d) {
+      parts.push(token.substring(start, i));
+      parts.push((c < 0x10 ? "%0" : "%") + c.toString(16).toUpperCase());
+      start = i + 1;
+    }
+  }
+  if (!start) return token;
+  parts.push(token.substring(start));
+  return parts.join("");
+}
+
+/**
+ * Undo delta_escape_.
+ * @param {string} text An escaped token.
+ * @return {string} The token.
+ */
+function delta_unescape_(text: string): string {
+  const parts: string[] = [];
+  let start: i32 = 0;
+  let i = text.indexOf("%");
+  while (i !== -1) {
+    const high =
+      i + 2 < text.length ? delta_hexDigit_(text.charCodeAt(i + 1)) : -1;
+    const low =
+      i + 2 < text.length ? delta_hexDigit_(text.charCodeAt(i + 2)) : -1;
+    if (high < 0 || low < 0) {
+      throw new Error("invalid escape in diff_fromDelta: " + text);
+    }
+    parts.push(text.substring(start, i));
+    parts.push(String.fromCharCode((high << 4) | low));
+    start = i + 3;
+    i = text.indexOf("%", start);
+  }
+  if (!start) return text;
+  parts.push(text.substring(start));
+  return parts.join("");
+}
+
+/**
+ * Value of a hexadecimal digit, or -1.
+ */
+function delta_hexDigit_(c: i32): i32 {
+  if (c >= 0x30 && c <= 0x39) return c - 0x30;
+  if (c >= 0x41 && c <= 0x46) return c - 0x41 + 10;
+  if (c >= 0x61 && c <= 0x66) return c - 0x61 + 10;
+  return -1;
+}
+
+/**
+ * Parse a token count of a delta.
+ * @param {string} text Decimal digits.
+ * @return {i32} The count, or -1 if text isn't one.
+ */
+function delta_parseCount_(text: string): i32 {
+  if (!text.length || text.length > 9) return -1;
+  let n: i32 = 0;
+  for (let i: i32 = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    if (c < 0x30 || c > 0x39) return -1;
+    n = n * 10 + c - 0x30;
+  }
+  return n;
+}
+
+/**
+ * Binary counterpart of diff_toDelta_.  Every tuple is a varint of
+ * (count << 2 | kind) with kind 0 for an equality, 1 for a deletion and 2 for
+ * an insertion, and count the number of tokens.  An insertion is followed by
+ * its tokens, each a varint byte length and the UTF-8 bytes.
+ * @param {Array} diffs Array of diff tuples.
+ * @return {Uint8Array} Delta bytes.
+ */
+function diff_toDeltaBinary_(diffs: DiffObject[]): Uint8Array {
+  const bytes: u8[] = [];
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const tokens = diffs[x].text;
+    if (!tokens.length) continue;
+    const kind: u32 =
+      diffs[x].type === DIFF_EQUAL ? 0 : diffs[x].type === DIFF_DELETE ? 1 : 2;
+    delta_writeVarint_(bytes, ((tokens.length as u32) << 2) | kind);
+    if (kind !== 2) continue;
+    for (let i: i32 = 0; i < tokens.length; i++) {
+      const utf8 = Uint8Array.wrap(String.UTF8.encode(tokens[i]));
+      delta_writeVarint_(bytes, utf8.length);
+      for (let j: i32 = 0; j < utf8.length; j++) {
+        bytes.push(utf8[j]);
+      }
+    }
+  }
+  const result = new Uint8Array(bytes.length);
+  for (let i: i32 = 0; i < bytes.length; i++) {
+    result[i] = bytes[i];
+  }
+  return result;
+}
+
+/**
+ * Binary counterpart of diff_fromDelta_.
+ * @param {Array.<string>} text1 Source tokens for the diff.
+ * @param {Uint8Array} delta Delta bytes.
+ * @return {Array} Array of diff tuples.
+ */
+function diff_fromDeltaBinary_(
+  text1: string[],
+  delta: Uint8Array
+): DiffObject[] {
+  const diffs: DiffObject[] = [];
+  const reader: DeltaReader = { bytes: delta, pos: 0 };
+  // Cursor in text1
+  let pointer: i32 = 0;
+  while (reader.pos < delta.length) {
+    const header = delta_readVarint_(reader);
+    const kind = header & 3;
+    const n = (header >>> 2) as i32;
+    if (kind === 2) {
+      // Every token takes at least its length byte, so don't allocate more
+      // tokens than there are bytes left.
+      if (n > delta.length - reader.pos) throw new Error("truncated delta");
+      const inserted = new Array<string>(n);
+      for (let i: i32 = 0; i < n; i++) {
+        const length = delta_readVarint_(reader);
+        if (length > ((delta.length - reader.pos) as u32)) {
+          throw new Error("truncated delta");
+        }
+        const end = reader.pos + (length as i32);
+        inserted[i] = String.UTF8.decode(delta.slice(reader.pos, end).buffer);
+        reader.pos = end;
+      }
+      diffs.push(diff_tuple_(DIFF_INSERT, inserted));
+    } else if (kind < 2) {
+      if (n <= 0 || n > text1.length - pointer) {
+        throw new Error("invalid number in diff_fromDeltaBinary");
+      }
+      const text = text1.slice(pointer, pointer + n);
+      pointer += n;
+      diffs.push(diff_tuple_(kind === 0 ? DIFF_EQUAL : DIFF_DELETE, text));
+    } else {
+      throw new Error("invalid diff operation in diff_fromDeltaBinary");
+    }
+  }
+  if (pointer != text1.length) {
+    throw new Error(
+      "delta length (" +
+        pointer.toString() +
+        ") does not equal source text length (" +
+        text1.length.toString() +
+        ")"
+    );
+  }
+  diff_setOffsets_(diffs);
+  return diffs;
+}
+
+/**
+ * Append value as an unsigned LEB128 varint.
+ */
+function delta_writeVarint_(bytes: u8[], value: u32): void {
+  while (value >= 0x80) {
+    bytes.push(((value & 0x7f) | 0x80) as u8);
+    value >>>= 7;
+  }
+  bytes.push(value as u8);
+}
+
+/**
+ * Read an unsigned LEB128 varint and advance past it.
+ */
+function delta_readVarint_(reader: DeltaReader): u32 {
+  let value: u32 = 0;
+  for (let shift: u32 = 0; shift < 35; shift += 7) {
+    if (reader.pos >= reader.bytes.length) throw new Error("truncated delta");
+    const byte = reader.bytes[reader.pos++] as u32;
+    // The fifth byte only has room for the top 4 bits.
+    if (shift === 28 && byte > 0x0f) {
+      throw new Error("varint too long in delta");
+    }
+    value |= (byte & 0x7f) << shift;
+    if (!(byte & 0x80)) return value;
+  }
+  throw new Error("varint too long in delta");
+}
+
+/**
+ * Record where every diff tuple sits in text1 and text2.
+ * @param {Array} diffs Array of diff tuples, modified in place.
+ */
+function diff_setOffsets_(diffs: DiffObject[]): void {
+  let index1: i32 = 0;
+  let index2: i32 = 0;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const diff = diffs[x];
+    diff.start1 = index1;
+    diff.start2 = index2;
+    if (diff.type !== DIFF_INSERT) index1 += diff.text.length;
+    if (diff.type !== DIFF_DELETE) index2 += diff.text.length;
+    diff.end1 = index1;
+    diff.end2 = index2;
+  }
+}
+
+/**
+ * Look up the token of every id.
+ * @param {Array.<i32>} ids Interned tokens.
+ * @param {Array.<string>} tokens The token of every id.
+ * @return {Array.<string>} The tokens.
+ */
+function diff_idTokens_(ids: i32[], tokens: string[]): string[] {
+  const text = new Array<string>(ids.length);
+  for (let i: i32 = 0; i < ids.length; i++) {
+    text[i] = tokens[ids[i]];
+  }
+  return text;
+}
+
+/**
+ * Turn a diff of interned tokens back into a diff of tokens.
+ * @param {Array.<InternedDiff>} diffs Array of interned diff tuples.
+ * @param {Array.<string>} tokens The token of every id.
+ * @return {Array} Array of diff tuples.
+ */
+function diff_fromInterned_(
+  diffs: InternedDiff[],
+  tokens: string[]
+): DiffObject[] {
+  const result = new Array<DiffObject>(diffs.length);
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    result[x] = diff_tuple_(
+      diffs[x].type,
+      diff_idTokens_(diffs[x].text, tokens)
+    );
+  }
+  return result;
+}
+
+/**
+ * Replace every token by the key it is compared by.
+ * @param {Array.<string>} tokens The tokens.
+ * @param {DiffOptions} options The comparison settings.
+ * @return {Array.<string>} The comparison keys.
+ */
+function diff_compareKeys_(tokens: string[], options: DiffOptions): string[] {
+  const keys = new Array<string>(tokens.length);
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    keys[i] = compare_key(
+      tokens[i],
+      options.ignoreCase,
+      options.ignorePunctuation,
+      options.normalization,
+      options.ignoreWhitespace
+    );
+  }
+  return keys;
+}
+
+/**
+ * Put the original tokens back into a diff of comparison keys.  Equalities
+ * get the tokens of text1, their offsets point at the tokens of text2.
+ * @param {Array} diffs Array of diff tuples with offsets, modified in place.
+ * @param {Array.<DiffMove>} moves The moves found in diffs, modified in
+ *     place.
+ * @param {Array.<string>} text1 Old tokens.
+ * @param {Array.<string>} text2 New tokens.
+ */
+function diff_restoreTokens_(
+  diffs: DiffObject[],
+  moves: DiffMove[],
+  text1: string[],
+  text2: string[]
+): void {
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const diff = diffs[x];
+    diff.text =
+      diff.type === DIFF_INSERT
+        ? text2.slice(diff.start2, diff.end2)
+        : text1.slice(diff.start1, diff.end1);
+  }
+  for (let x: i32 = 0; x < moves.length; x++) {
+    moves[x].text = text1.slice(moves[x].start1, moves[x].end1);
+  }
+}
+
+/**
+ * Pair deleted and inserted runs of identical tokens in different places,
+ * longest first, each token being part of at most one move.  The longest
+ * common run of every pair of segments is found once, and again only for
+ * the pieces a move leaves of its two segments, within MOVE_MAX_CELLS.
+ * @param {Array} diffs Array of diff tuples with offsets.
+ * @param {i32} min_length Minimum number of tokens of a move.
+ * @return {Array.<DiffMove>} The moves in text1 order.
+ */
+function diff_findMoves_(diffs: DiffObject[], min_length: i32): DiffMove[] {
+  let deleted: MoveSegment[] = [];
+  let inserted: MoveSegment[] = [];
+  let block: i32 = 0;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const diff = diffs[x];
+    if (diff.type === DIFF_EQUAL) {
+      block++;
+      continue;
+    }
+    const segment: MoveSegment = {
+      diff: x,
+      block,
+      start: 0,
+      end: diff.text.length,
+    };
+    if (diff.type === DIFF_DELETE) {
+      deleted.push(segment);
+    } else {
+      inserted.push(segment);
+    }
+  }
+
+  let candidates: MoveCandidate[] = [];
+  let cells_left = diff_pairMoveSegments_(
+    diffs,
+    deleted,
+    inserted,
+    min_length,
+    candidates,
+    MOVE_MAX_CELLS
+  );
+  const moves: DiffMove[] = [];
+  while (candidates.length) {
+    let best = candidates[0];
+    for (let c: i32 = 1; c < candidates.length; c++) {
+      if (diff_moveCandidateBefore_(diffs, candidates[c], best)) {
+        best = candidates[c];
+      }
+    }
+    const from = best.deleted;
+    const to = best.inserted;
+    const start1 = diffs[from.diff].start1 + best.start1;
+    const start2 = diffs[to.diff].start2 + best.start2;
+    moves.push({
+      text: diffs[from.diff].text.slice(best.start1, best.start1 + best.length),
+      from: from.diff,
+      to: to.diff,
+      start1,
+      end1: start1 + best.length,
+      start2,
+      end2: start2 + best.length,
+    });
+
+    // Runs of other segments are still there, only the two segments of the
+    // move are replaced by what is left of them.
+    const remaining: MoveCandidate[] = [];
+    for (let c: i32 = 0; c < candidates.length; c++) {
+      if (candidates[c].deleted !== from && candidates[c].inserted !== to) {
+        remaining.push(candidates[c]);
+      }
+    }
+    candidates = remaining;
+    const deleted_pieces = diff_splitMoveSegment_(
+      from,
+      best.start1,
+      best.length
+    );
+    const inserted_pieces = diff_splitMoveSegment_(
+      to,
+      best.start2,
+      best.length
+    );
+    deleted.splice(deleted.indexOf(from), 1);
+    inserted.splice(inserted.indexOf(to), 1);
+    cells_left = diff_pairMoveSegments_(
+      diffs,
+      deleted_pieces,
+      inserted,
+      min_length,
+      candidates,
+      cells_left
+    );
+    deleted = deleted.concat(deleted_pieces);
+    cells_left = diff_pairMoveSegments_(
+      diffs,
+      deleted,
+      inserted_pieces,
+      min_length,
+      candidates,
+      cells_left
+    );
+    inserted = inserted.concat(inserted_pieces);
+  }
+  moves.sort((a: DiffMove, b: DiffMove): i32 => a.start1 - b.start1);
+  return moves;
+}
+
+/**
+ * Find the longest common run of every deleted segment with every inserted
+ * segment in another place, and keep those long enough to be moves.
+ * @param {Array} diffs Array of diff tuples with offsets.
+ * @param {Array.<MoveSegment>} deleted Unmatched segments of deletions.
+ * @param {Array.<MoveSegment>} inserted Unmatched segments of insertions.
+ * @param {i32} min_length Minimum number of tokens of a move.
+ * @param {Array.<MoveCandidate>} candidates Receives the runs found.
+ * @param {i64} cells_left Token comparisons left, see MOVE_MAX_CELLS.
+ * @return {i64} Token comparisons left afterwards.
+ */
+function diff_pairMoveSegments_(
+  diffs: DiffObject[],
+  deleted: MoveSegment[],
+  inserted: MoveSegment[],
+  min_length: i32,
+  candidates: MoveCandidate[],
+  cells_left: i64
+): i64 {
+  for (let d: i32 = 0; d < deleted.length; d++) {
+    const length1 = deleted[d].end - deleted[d].start;
+    if (length1 < min_length) continue;
+    for (let i: i32 = 0; i < inserted.length; i++) {
+      const length2 = inserted[i].end - inserted[i].start;
+      if (length2 < min_length) continue;
+      // Text replaced in place wasn't moved.
+      if (deleted[d].block === inserted[i].block) continue;
+      const cells = (length1 as i64) * (length2 as i64);
+      if (cells > cells_left) return 0;
+      cells_left -= cells;
+      const run = diff_longestCommonRun_(
+        diffs[deleted[d].diff].text,
+        deleted[d],
+        diffs[inserted[i].diff].text,
+        inserted[i]
+      );
+      if (run[2] >= min_length) {
+        candidates.push({
+          deleted: deleted[d],
+          inserted: inserted[i],
+          start1: run[0],
+          start2: run[1],
+          length: run[2],
+        });
+      }
+    }
+  }
+  return cells_left;
+}
+
+/**
+ * Whether a run should become a move before another one: the longer run
+ * goes first, then the one starting first in text1, then in text2.
+ * @param {Array} diffs Array of diff tuples with offsets.
+ * @param {MoveCandidate} a The first run.
+ * @param {MoveCandidate} b The second run.
+ * @return {boolean} True if a goes before b.
+ */
+function diff_moveCandidateBefore_(
+  diffs: DiffObject[],
+  a: MoveCandidate,
+  b: MoveCandidate
+): boolean {
+  if (a.length !== b.length) return a.length > b.length;
+  const start1_a = diffs[a.deleted.diff].start1 + a.start1;
+  const start1_b = diffs[b.deleted.diff].start1 + b.start1;
+  if (start1_a !== start1_b) return start1_a < start1_b;
+  return (
+    diffs[a.inserted.diff].start2 + a.start2 <
+    diffs[b.inserted.diff].start2 + b.start2
+  );
+}
+
+/**
+ * Find the longest run of tokens two segments have in common.
+ * @param {Array.<string>} text1 Tokens of the first segment's tuple.
+ * @param {MoveSegment} segment1 The first segment.
+ * @param {Array.<string>} text2 Tokens of the second segment's tuple.
+ * @param {MoveSegment} segment2 The second segment.
+ * @return {Array.<i32>} [start1, start2, length] of the run, with the starts
+ *     relative to the tuples.
+ */
+function diff_longestCommonRun_(
+  text1: string[],
+  segment1: MoveSegment,
+  text2: string[],
+  segment2: MoveSegment
+): i32[] {
+  const width = segment2.end - segment2.start + 1;
+  // Length of the common run ending at each token pair, for the previous and
+  // the current token of text1 side by side.
+  const rows = new Int32Array(2 * width);
+  const best: i32[] = [0, 0, 0];
+  for (let i = segment1.start; i < segment1.end; i++) {
+    const row = (i & 1) * width;
+    const last_row = width - row;
+    for (let j = segment2.start; j < segment2.end; j++) {
+      const column = j - segment2.start + 1;
+      if (text1[i] !== text2[j]) {
+        rows[row + column] = 0;
+        continue;
+      }
+      const length = rows[last_row + column - 1] + 1;
+      rows[row + column] = length;
+      if (length > best[2]) {
+        best[0] = i - length + 1;
+        best[1] = j - length + 1;
+        best[2] = length;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Split a segment around a move taken from it.
+ * @param {MoveSegment} segment The segment the move was taken from.
+ * @param {i32} start Start of the move in the segment's tuple.
+ * @param {i32} length Number of tokens moved.
+ * @return {Array.<MoveSegment>} What is left of the segment on either side
+ *     of the move, zero to two segments.
+ */
+function diff_splitMoveSegment_(
+  segment: MoveSegment,
+  start: i32,
+  length: i32
+): MoveSegment[] {
+  const pieces: MoveSegment[] = [];
+  if (start > segment.start) {
+    pieces.push({
+      diff: segment.diff,
+      block: segment.block,
+      start: segment.start,
+      end: start,
+    });
+  }
+  if (start + length < segment.end) {
+    pieces.push({
+      diff: segment.diff,
+      block: segment.block,
+      start: start + length,
+      end: segment.end,
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Check that a selection lies within a text.
+ * @param {CursorPosRange} range The selection.
+ * @param {i32} length Length of the text.
+ */
+function cursor_checkRange_(range: CursorPosRange, length: i32): void {
+  if (
+    range.index < 0 ||
+    range.length < 0 ||
+    range.index + range.length > length
+  ) {
+    throw new Error("cursor position out of range");
+  }
+}
+
+/**
+ * Check that a tokenizer mode is one of Tokenizer.
+ * @param {Tokenizer} mode The mode.
+ */
+function tokenizer_checkMode_(mode: Tokenizer): void {
+  if (!is_tokenizer(mode)) {
+    throw new Error("unknown tokenizer mode: " + mode.toString());
+  }
+}
+
+/**
+ * Find the token boundary nearest to a UTF-16 offset.
+ * @param {Array.<string>} tokens The tokens of the text.
+ * @param {i32} offset Offset into the joined tokens.
+ * @param {boolean} round_up Whether an offset inside a token maps to the
+ *     end of that token rather than its start.
+ * @return {i32} Index of the token starting at the boundary.
+ */
+function cursor_tokenIndex_(
+  tokens: string[],
+  offset: i32,
+  round_up: boolean
+): i32 {
+  let position: i32 = 0;
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    if (position === offset) return i;
+    position += tokens[i].length;
+    if (position > offset) return round_up ? i + 1 : i;
+  }
+  return tokens.length;
+}
+
+/**
+ * Convert a UTF-16 selection into a token selection covering every token it
+ * touches.
+ * @param {Array.<string>} tokens The tokens of the text.
+ * @param {CursorPosRange} range Selection in UTF-16 code units.
+ * @return {CursorPosRange} Selection in tokens.
+ */
+function cursor_tokenRange_(
+  tokens: string[],
+  range: CursorPosRange
+): CursorPosRange {
+  const start = cursor_tokenIndex_(tokens, range.index, false);
+  const end = cursor_tokenIndex_(tokens, range.index + range.length, true);
+  return { index: start, length: end - start };
+}
+
+/**
+ * Diff two arrays of interned tokens and run the cleanups requested in
+ * options.
+ * @param {Array.<i32>} keys1 Old interned tokens.
+ * @param {Array.<i32>} keys2 New interned tokens.
+ * @param {Array.<string>} tokens The token of every id.
+ * @param {DiffOptions} options The cleanups to run, or null.
+ * @param {DiffContext} context Settings and budget of the diff, or null.
+ * @param {i32} cursor_pos Cursor index into text1, or -1.
+ * @param {CursorPos} cursor_pos_obj Old and new selection, or null.
+ * @return {Array} Array of diff tuples with offsets.
+ */
+function diff_runInterned_(
+  keys1: i32[],
+  keys2: i32[],
+  tokens: string[],
+  options: DiffOptions | null,
+  context: DiffContext | null,
+  cursor_pos: i32,
+  cursor_pos_obj: CursorPos | null
+): DiffObject[] {
+  // only pass fix_unicode=true at the top level, not when diff_main is
+  // recursively invoked
+  const interned = diff_main(keys1, keys2, cursor_pos, cursor_pos_obj, context);
+  const diffs = diff_fromInterned_(interned, tokens);
+  if (options !== null && options.cleanupSemantic) {
+    diff_cleanupSemantic_(diffs);
+  }
+  if (options !== null && options.cleanupEfficiency) {
+    diff_cleanupEfficiency_(
+      diffs,
+      options.editCost > 0 ? options.editCost : DIFF_EDIT_COST
+    );
+  }
+  diff_setOffsets_(diffs);
+  return diffs;
+}
+
+/**
+ * Diff two token arrays and run the post-processing requested in options.
+ * Diffs given a context run under its deadline and edit budget instead of
+ * the ones in options, so that they can share them.
+ */
+function diff_run_(
+  text1: string[],
+  text2: string[],
+  options: DiffOptions | null,
+  cursor_pos: i32 = -1,
+  cursor_pos_obj: CursorPos | null = null,
+  table: TokenTable | null = null,
+  shared_context: DiffContext | null = null
+): DiffResult {
+  const context =
+    shared_context !== null
+      ? shared_context
+      : diff_contextFromOptions_(options);
+  const keyed =
+    options !== null &&
+    (options.ignoreCase ||
+      options.ignorePunctuation ||
+      options.normalization !== Normalization.None ||
+      options.ignoreWhitespace);
+  // Intern the tokens, or the keys they're compared by, once for the whole
+  // diff: diff_main only compares integers.
+  const ids = table !== null ? table : new TokenTable();
+  const keys1 = internTokens(
+    ids,
+    keyed ? diff_compareKeys_(text1, options!) : text1
+  );
+  const keys2 = internTokens(
+    ids,
+    keyed ? diff_compareKeys_(text2, options!) : text2
+  );
+  if (context !== null && context.lineMode) context.tokens = ids.tokens;
+  const diffs = diff_runInterned_(
+    keys1,
+    keys2,
+    ids.tokens,
+    options,
+    context,
+    cursor_pos,
+    cursor_pos_obj
+  );
+  const moves =
+    options !== null && options.moveMinLength > 0
+      ? diff_findMoves_(diffs, options.moveMinLength)
+      : [];
+  if (keyed) diff_restoreTokens_(diffs, moves, text1, text2);
+  if (DIFF_VALIDATE) diff_validate_(diffs, text1, text2, keyed);
+  return {
+    diffs,
+    truncated: context !== null && context.truncated,
+    moves,
+  };
+}
+
+export function diff(
+  text1: string[],
+  text2: string[],
+  options: DiffOptions | null = null
+): DiffResult {
+  return diff_run_(text1, text2, options);
+}
+
+/**
+ * Like diff, but on integer keys the caller computed for its items: items
+ * with equal keys are equal.  The result only gives the index ranges of the
+ * items.  Keys are compared as they are, so the comparison settings don't
+ * apply, and neither does line mode: keys have no line breaks.
+ */
+export function diff_keys(
+  keys1: Int32Array,
+  keys2: Int32Array,
+  options: DiffOptions | null = null
+): KeyDiffResult {
+  const context = diff_contextFromOptions_(options);
+  if (context !== null) context.lineMode = false;
+  const ids = new KeyTable();
+  const ids1 = internKeys(ids, keys1);
+  const ids2 = internKeys(ids, keys2);
+  // The cleanups compare tokens, one per distinct key is enough.
+  const tokens = new Array<string>(ids.keys.length);
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    tokens[i] = ids.keys[i].toString();
+  }
+  const result = diff_runInterned_(
+    ids1,
+    ids2,
+    tokens,
+    options,
+    context,
+    -1,
+    null
+  );
+  if (DIFF_VALIDATE) {
+    diff_validate_(
+      result,
+      diff_idTokens_(ids1, tokens),
+      diff_idTokens_(ids2, tokens),
+      false
+    );
+  }
+  const diffs: KeyDiff[] = [];
+  for (let x: i32 = 0; x < result.length; x++) {
+    const diff = result[x];
+    diffs.push({
+      type: diff.type,
+      start1: diff.start1,
+      end1: diff.end1,
+      start2: diff.start2,
+      end2: diff.end2,
+    });
+  }
+  const moves: KeyMove[] = [];
+  if (options !== null && options.moveMinLength > 0) {
+    const found = diff_findMoves_(result, options.moveMinLength);
+    for (let x: i32 = 0; x < found.length; x++) {
+      const move = found[x];
+      moves.push({
+        from: move.from,
+        to: move.to,
+        start1: move.start1,
+        end1: move.end1,
+        start2: move.start2,
+        end2: move.end2,
+      });
+    }
+  }
+  return {
+    diffs,
+    truncated: context !== null && context.truncated,
+    moves,
+  };
+}
+
+/**
+ * Like diff, but when the change is ambiguous, prefer the edit a user makes
+ * by typing or deleting at cursor, a token index into text1.
+ */
+export function diff_cursor(
+  text1: string[],
+  text2: string[],
+  cursor: i32,
+  options: DiffOptions | null = null
+): DiffResult {
+  cursor_checkRange_({ index: cursor, length: 0 }, text1.length);
+  return diff_run_(text1, text2, options, cursor);
+}
+
+/**
+ * Like diff, but when the change is ambiguous, prefer the edit that turns
+ * the old selection into the new one (token ranges), such as typing over a
+ * selection.
+ */
+export function diff_selection(
+  text1: string[],
+  text2: string[],
+  selection: CursorPos,
+  options: DiffOptions | null = null
+): DiffResult {
+  cursor_checkRange_(selection.oldRange, text1.length);
+  cursor_checkRange_(selection.newRange, text2.length);
+  return diff_run_(text1, text2, options, -1, selection);
+}
+
+/**
+ * Tokenize and diff two strings, then describe the chunks of the result.
+ * Cursor positions are in UTF-16 code units and snap to token boundaries.
+ */
+function worddiff_run_(
+  text1: string,
+  text2: string,
+  options: WordDiffOptions | null,
+  cursor_pos: i32 = -1,
+  cursor_pos_obj: CursorPos | null = null,
+  table: TokenTable | null = null
+): WordDiffResult {
+  const opts = options !== null ? options : new WordDiffOptions();
+  tokenizer_checkMode_(opts.tokenizer);
+  const tokens1 = tokenize_text(text1, opts.tokenizer);
+  const tokens2 = tokenize_text(text2, opts.tokenizer);
+  let token_cursor_pos: i32 = -1;
+  let token_cursor_pos_obj: CursorPos | null = null;
+  if (cursor_pos > -1) {
+    token_cursor_pos = cursor_tokenIndex_(tokens1, cursor_pos, false);
+  } else if (cursor_pos_obj !== null) {
+    token_cursor_pos_obj = {
+      oldRange: cursor_tokenRange_(tokens1, cursor_pos_obj.oldRange),
+      newRange: cursor_tokenRange_(tokens2, cursor_pos_obj.newRange),
+    };
+  }
+  // The character diffs of refine share the budget of the word diff.
+  const context = diff_contextFromOptions_(opts.diff);
+  const result = diff_run_(
+    tokens1,
+    tokens2,
+    opts.diff,
+    token_cursor_pos,
+    token_cursor_pos_obj,
+    table,
+    context
+  );
+  const diffs = result.diffs;
+  // The moves are in text1 order, which is also their order within each
+  // deletion.  Insertions need them in text2 order.
+  const moves_out = result.moves;
+  const moves_in = moves_out.slice();
+  moves_in.sort((a: DiffMove, b: DiffMove): i32 => a.start2 - b.start2);
+  // equal chunks may differ between the texts when comparison ignores case
+  // and such, so measure each side in its own tokens
+  const offsets1 = tokens_charOffsets_(tokens1);
+  const offsets2 = tokens_charOffsets_(tokens2);
+
+  const chunks: WordDiffChunk[] = [];
+  let move_out: i32 = 0;
+  let move_in: i32 = 0;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const diff = diffs[x];
+    if (diff.type === DIFF_DELETE) {
+      // Leave out the runs that moved, their Move chunks say where to.
+      let start1 = diff.start1;
+      while (move_out < moves_out.length && moves_out[move_out].from === x) {
+        const move = moves_out[move_out++];
+        worddiff_pushChunk_(
+          chunks,
+          DiffOp.Delete,
+          diff.text.slice(start1 - diff.start1, move.start1 - diff.start1),
+          start1,
+          move.start1,
+          diff.start2,
+          diff.start2,
+          offsets1,
+          offsets2
+        );
+        start1 = move.end1;
+      }
+      worddiff_pushChunk_(
+        chunks,
+        DiffOp.Delete,
+        diff.text.slice(start1 - diff.start1),
+        start1,
+        diff.end1,
+        diff.start2,
+        diff.start2,
+        offsets1,
+        offsets2
+      );
+    } else if (diff.type === DIFF_INSERT) {
+      let start2 = diff.start2;
+      while (move_in < moves_in.length && moves_in[move_in].to === x) {
+        const move = moves_in[move_in++];
+        worddiff_pushChunk_(
+          chunks,
+          DiffOp.Insert,
+          diff.text.slice(start2 - diff.start2, move.start2 - diff.start2),
+          diff.start1,
+          diff.start1,
+          start2,
+          move.start2,
+          offsets1,
+          offsets2
+        );
+        worddiff_pushChunk_(
+          chunks,
+          DiffOp.Move,
+          diff.text.slice(move.start2 - diff.start2, move.end2 - diff.start2),
+          move.start1,
+          move.end1,
+          move.start2,
+          move.end2,
+          offsets1,
+          offsets2
+        );
+        start2 = move.end2;
+      }
+      worddiff_pushChunk_(
+        chunks,
+        DiffOp.Insert,
+        diff.text.slice(start2 - diff.start2),
+        diff.start1,
+        diff.start1,
+        start2,
+        diff.end2,
+        offsets1,
+        offsets2
+      );
+    } else {
+      worddiff_pushChunk_(
+        chunks,
+        DiffOp.Equal,
+        diff.text,
+        diff.start1,
+        diff.end1,
+        diff.start2,
+        diff.end2,
+        offsets1,
+        offsets2
+      );
+    }
+  }
+
+  if (opts.refine) worddiff_refine_(chunks, context);
+
+  return {
+    chunks,
+    truncated: context !== null && context.truncated,
+  };
+}
+
+/**
+ * Append a chunk unless it has no tokens.
+ * @param {Array.<WordDiffChunk>} chunks The chunks so far.
+ * @param {DiffOp} op The op of the chunk.
+ * @param {Array.<string>} tokens The tokens of the chunk.
+ * @param {i32} start1 Start of the chunk in text1.
+ * @param {i32} end1 End of the chunk in text1.
+ * @param {i32} start2 Start of the chunk in text2.
+ * @param {i32} end2 End of the chunk in text2.
+ * @param {Array.<i32>} offsets1 UTF-16 offset of every token of text1.
+ * @param {Array.<i32>} offsets2 UTF-16 offset of every token of text2.
+ */
+function worddiff_pushChunk_(
+  chunks: WordDiffChunk[],
+  op: DiffOp,
+  tokens: string[],
+  start1: i32,
+  end1: i32,
+  start2: i32,
+  end2: i32,
+  offsets1: i32[],
+  offsets2: i32[]
+): void {
+  if (!tokens.length) return;
+  chunks.push({
+    op,
+    tokens,
+    // tokens keep their whitespace, so no separator is needed
+    text: tokens.join(""),
+    start1,
+    end1,
+    start2,
+    end2,
+    charStart1: offsets1[start1],
+    charEnd1: offsets1[end1],
+    charStart2: offsets2[start2],
+    charEnd2: offsets2[end2],
+    parts: null,
+  });
+}
+
+/**
+ * Find where every token starts in the text the tokens were split from.
+ * @param {Array.<string>} tokens The tokens.
+ * @return {Array.<i32>} The UTF-16 offset of every token, followed by the
+ *     length of the text.
+ */
+function tokens_charOffsets_(tokens: string[]): i32[] {
+  const offsets = new Array<i32>(tokens.length + 1);
+  offsets[0] = 0;
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    offsets[i + 1] = offsets[i] + tokens[i].length;
+  }
+  return offsets;
+}
+
+/**
+ * Diff each deleted chunk that is followed by a similar inserted chunk
+ * character by character and store the result in the parts of both.
+ * @param {Array.<WordDiffChunk>} chunks Chunks of a worddiff, modified in
+ *     place.
+ * @param {DiffContext} context Settings and budget of the word diff, whose
+ *     deadline and remaining edits the character diffs use up in turn.
+ */
+function worddiff_refine_(
+  chunks: WordDiffChunk[],
+  context: DiffContext | null
+): void {
+  const char_options = new DiffOptions();
+  // single characters in common are noise, keep only readable runs
+  char_options.cleanupSemantic = true;
+  // Only the budget carries over: the settings of the word diff, like line
+  // mode or the algorithm, don't apply to characters.
+  let char_context: DiffContext | null = null;
+  if (context !== null) {
+    char_context = new DiffContext();
+    char_context.expiresAt = context.expiresAt;
+    char_context.editsLeft = context.editsLeft;
+    char_context.truncated = context.truncated;
+  }
+  for (let x: i32 = 0; x + 1 < chunks.length; x++) {
+    if (char_context !== null && char_context.truncated) break;
+    const deleted = chunks[x];
+    const inserted = chunks[x + 1];
+    if (deleted.op !== DiffOp.Delete || inserted.op !== DiffOp.Insert) {
+      continue;
+    }
+    const shorter = Math.min(deleted.text.length, inserted.text.length);
+    const longer = Math.max(deleted.text.length, inserted.text.length);
+    if (shorter < longer * REFINE_MIN_RATIO) continue;
+    const result = diff_run_(
+      tokenize_text(deleted.text, Tokenizer.Characters),
+      tokenize_text(inserted.text, Tokenizer.Characters),
+      char_options,
+      -1,
+      null,
+      null,
+      char_context
+    );
+    deleted.parts = worddiff_parts_(
+      result.diffs,
+      DIFF_INSERT,
+      deleted.charStart1
+    );
+    inserted.parts = worddiff_parts_(
+      result.diffs,
+      DIFF_DELETE,
+      inserted.charStart2
+    );
+    x++;
+  }
+  if (char_context !== null) {
+    context!.editsLeft = char_context.editsLeft;
+    context!.truncated = char_context.truncated;
+  }
+}
+
+/**
+ * Turn one side of a character diff into parts, merging the runs that the
+ * other side's edits split apart.
+ * @param {Array} diffs The character diff.
+ * @param {i32} skip The op of the other side, DIFF_DELETE or DIFF_INSERT.
+ * @param {i32} char_start Where the chunk starts in its text.
+ * @return {Array.<WordDiffPart>} The parts of the chunk.
+ */
+function worddiff_parts_(
+  diffs: DiffObject[],
+  skip: i32,
+  char_start: i32
+): WordDiffPart[] {
+  const parts: WordDiffPart[] = [];
+  let char_index = char_start;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const diff = diffs[x];
+    if (diff.type === skip) continue;
+    const text = diff.text.join("");
+    const char_end = char_index + text.length;
+    if (parts.length && parts[parts.length - 1].op === diff.type) {
+      const last = parts[parts.length - 1];
+      last.text += text;
+      last.charEnd = char_end;
+    } else {
+      parts.push({
+        op: diff.type,
+        text,
+        charStart: char_index,
+        charEnd: char_end,
+      });
+    }
+    char_index = char_end;
+  }
+  return parts;
+}
+
+/**
+ * Split a string into tokens.  Throws "unknown tokenizer mode" if mode isn't
+ * one of Tokenizer; worddiff and the other functions taking WordDiffOptions
+ * throw the same for their tokenizer.
+ */
+export function tokenize(
+  text: string,
+  mode: Tokenizer = Tokenizer.Words
+): string[] {
+  tokenizer_checkMode_(mode);
+  return tokenize_text(text, mode);
+}
+
+export function worddiff(
+  text1: string,
+  text2: string,
+  options: WordDiffOptions | null = null
+): WordDiffResult {
+  return worddiff_run_(text1, text2, options);
+}
+
+/**
+ * Like worddiff, but when the change is ambiguous, prefer the edit a user
+ * makes by typing or deleting at cursor, a UTF-16 offset into text1.
+ */
+export function worddiff_cursor(
+  text1: string,
+  text2: string,
+  cursor: i32,
+  options: WordDiffOptions | null = null
+): WordDiffResult {
+  cursor_checkRange_({ index: cursor, length: 0 }, text1.length);
+  return worddiff_run_(text1, text2, options, cursor);
+}
+
+/**
+ * Like worddiff, but when the change is ambiguous, prefer the edit that
+ * turns the old selection into the new one (UTF-16 ranges), such as typing
+ * over a selection.
+ */
+export function worddiff_selection(
+  text1: string,
+  text2: string,
+  selection: CursorPos,
+  options: WordDiffOptions | null = null
+): WordDiffResult {
+  cursor_checkRange_(selection.oldRange, text1.length);
+  cursor_checkRange_(selection.newRange, text2.length);
+  return worddiff_run_(text1, text2, options, -1, selection);
+}
+
+/**
+ * Run worddiff on many pairs of strings in one call, with a single token
+ * table for all of them.  texts holds every string back to back, and pair k
+ * is texts[offsets[2k], offsets[2k + 1]) and texts[offsets[2k + 1],
+ * offsets[2k + 2]).
+ *
+ * The result starts with the index of every pair's record followed by the
+ * index where the records end.  A record is the truncated flag (0 or 1) and
+ * then op, charStart1, charEnd1, charStart2, charEnd2 and the number of
+ * refined parts for every chunk, each part followed by its op, charStart and
+ * charEnd.
+ */
+export function worddiff_batch(
+  texts: string,
+  offsets: Int32Array,
+  options: WordDiffOptions | null = null
+): Int32Array {
+  if (!(offsets.length & 1)) {
+    throw new Error("offsets must hold an odd number of entries");
+  }
+  for (let i: i32 = 0; i < offsets.length; i++) {
+    if (offsets[i] < (i ? offsets[i - 1] : 0) || offsets[i] > texts.length) {
+      throw new Error("offset out of range at " + i.toString());
+    }
+  }
+  const table = new TokenTable();
+  const pairs = offsets.length >> 1;
+  // Room for the record indexes, filled in as the records are written.
+  const packed = new Array<i32>(pairs + 1);
+  for (let k: i32 = 0; k < pairs; k++) {
+    packed[k] = packed.length;
+    const result = worddiff_run_(
+      texts.substring(offsets[2 * k], offsets[2 * k + 1]),
+      texts.substring(offsets[2 * k + 1], offsets[2 * k + 2]),
+      options,
+      -1,
+      null,
+      table
+    );
+    packed.push(result.truncated ? 1 : 0);
+    for (let x: i32 = 0; x < result.chunks.length; x++) {
+      const chunk = result.chunks[x];
+      packed.push(chunk.op);
+      packed.push(chunk.charStart1);
+      packed.push(chunk.charEnd1);
+      packed.push(chunk.charStart2);
+      packed.push(chunk.charEnd2);
+      const parts = chunk.parts;
+      if (parts === null) {
+        packed.push(0);
+        continue;
+      }
+      packed.push(parts.length);
+      for (let i: i32 = 0; i < parts.length; i++) {
+        packed.push(parts[i].op);
+        packed.push(parts[i].charStart);
+        packed.push(parts[i].charEnd);
+      }
+    }
+  }
+  packed[pairs] = packed.length;
+  const result = new Int32Array(packed.length);
+  for (let i: i32 = 0; i < packed.length; i++) {
+    result[i] = packed[i];
+  }
+  return result;
+}
+
+export function patch_make(
+  diffs: DiffObject[],
+  options: PatchOptions | null = null
+): PatchObject[] {
+  return patch_make_(
+    diff_text1(diffs),
+    diffs,
+    options !== null && options.margin > 0 ? options.margin : PATCH_MARGIN
+  );
+}
+
+export function patch_apply(
+  patches: PatchObject[],
+  text: string[],
+  options: PatchOptions | null = null
+): PatchResult {
+  return patch_apply_(
+    patches,
+    text,
+    options !== null && options.fuzz > 0 ? options.fuzz : 0
+  );
+}
+
+export function merge3(
+  base: string[],
+  ours: string[],
+  theirs: string[],
+  options: DiffOptions | null = null
+): Merge3Result {
+  const ours_diff = diff_run_(base, ours, options);
+  const theirs_diff = diff_run_(base, theirs, options);
+  const chunks = merge3_(
+    base,
+    merge3_hunks_(ours_diff.diffs),
+    merge3_hunks_(theirs_diff.diffs)
+  );
+  let conflicts: i32 = 0;
+  for (let x: i32 = 0; x < chunks.length; x++) {
+    if (chunks[x].conflict) conflicts++;
+  }
+  return {
+    chunks,
+    conflicts,
+    truncated: ours_diff.truncated || theirs_diff.truncated,
+  };
+}
+
+/**
+ * Count the tokens a diff inserts, deletes and keeps.
+ */
+export function diff_stats(diffs: DiffObject[]): DiffStats {
+  let inserted: i32 = 0;
+  let deleted: i32 = 0;
+  let unchanged: i32 = 0;
+  let hunks: i32 = 0;
+  let in_hunk = false;
+  for (let x: i32 = 0; x < diffs.length; x++) {
+    const length = diffs[x].text.length;
+    if (diffs[x].type === DIFF_EQUAL) {
+      unchanged += length;
+      // Empty equalities don't split hunks.
+      if (length) in_hunk = false;
+      continue;
+    }
+    if (diffs[x].type === DIFF_INSERT) {
+      inserted += length;
+    } else {
+      deleted += length;
+    }
+    if (length && !in_hunk) {
+      hunks++;
+      in_hunk = true;
+    }
+  }
+  const total = 2 * unchanged + inserted + deleted;
+  return {
+    inserted,
+    deleted,
+    unchanged,
+    hunks,
+    levenshtein: diff_levenshtein(diffs),
+    similarity: total ? ((2 * unchanged) as f64) / (total as f64) : 1.0,
+  };
+}
+
+/**
+ * Diff two token arrays and return the similarity of diff_stats.
+ */
+export function similarity(
+  text1: string[],
+  text2: string[],
+  options: DiffOptions | null = null
+): f64 {
+  return diff_stats(diff_run_(text1, text2, options).diffs).similarity;
+}
+
+export function diff_prettyHtml(
+  diffs: DiffObject[],
+  options: HtmlOptions | null = null
+): string {
+  return diff_prettyHtml_(
+    diffs,
+    options !== null ? options : new HtmlOptions()
+  );
+}
+
+export function diff_toWordDiffPlain(diffs: DiffObject[]): string {
+  return diff_toWordDiffPlain_(diffs);
+}
+
+export function diff_toWordDiffPorcelain(diffs: DiffObject[]): string {
+  return diff_toWordDiffPorcelain_(diffs);
+}
+
+export function diff_toUnified(diffs: DiffObject[], context: i32 = 3): string {
+  return diff_toUnified_(diffs, Math.max(0, context) as i32);
+}
+
+export function diff_toDelta(diffs: DiffObject[]): string {
+  return diff_toDelta_(diffs);
+}
+
+export function diff_fromDelta(text1: string[], delta: string): DiffObject[] {
+  return diff_fromDelta_(text1, delta);
+}
+
+export function diff_toDeltaBinary(diffs: DiffObject[]): Uint8Array {
+  return diff_toDeltaBinary_(diffs);
+}
+
+export function diff_fromDeltaBinary(
+  text1: string[],
+  delta: Uint8Array
+): DiffObject[] {
+  return diff_fromDeltaBinary_(text1, delta);
+}
+
+export function diff_invert(diffs: DiffObject[]): DiffObject[] {
+  return diff_invert_(diffs);
+}
+
+export function diff_compose(
+  diffs1: DiffObject[],
+  diffs2: DiffObject[]
+): DiffObject[] {
+  return diff_compose_(diffs1, diffs2);
+}
+
+/**
+ * Rebase diffs onto other, a diff of the same text1, so that they apply
+ * after it.  When both insert at the same position, the insertion of diffs
+ * goes first only if insert_first is set.
+ */
+export function diff_transform(
+  diffs: DiffObject[],
+  other: DiffObject[],
+  insert_first: boolean = false
+): DiffObject[] {
+  return diff_transform_(diffs, other, insert_first);
+}
+
+/**
+ * Reorder and merge like edit sections of diffs, and merge equalities.
+ * Returns the result: JavaScript doesn't see changes made in place.
+ */
+export function diff_cleanupMerge(diffs: DiffObject[]): DiffObject[] {
+  diff_cleanupMerge_<string, DiffObject>(diffs, diff_tuple_);
+  diff_setOffsets_(diffs);
+  return diffs;
+}
+
+/**
+ * Eliminate semantically trivial equalities, see diff_cleanupSemantic_.
+ */
+export function diff_cleanupSemantic(diffs: DiffObject[]): DiffObject[] {
+  diff_cleanupSemantic_(diffs);
+  diff_setOffsets_(diffs);
+  return diffs;
+}
+
+/**
+ * Shift single edits between equalities to word and line boundaries.
+ */
+export function diff_cleanupSemanticLossless(
+  diffs: DiffObject[]
+): DiffObject[] {
+  diff_cleanupSemanticLossless_(diffs);
+  diff_setOffsets_(diffs);
+  return diffs;
+}
+
+export function diff_commonOverlap(text1: string[], text2: string[]): i32 {
+  return diff_commonOverlap_(text1, text2);
+}
+
+/**
+ * Eliminate operationally trivial equalities, see diff_cleanupEfficiency_.
+ * Like the editCost option, an edit_cost of 0 stands for the default cost.
+ */
+export function diff_cleanupEfficiency(
+  diffs: DiffObject[],
+  edit_cost: i32 = DIFF_EDIT_COST
+): DiffObject[] {
+  diff_cleanupEfficiency_(diffs, edit_cost > 0 ? edit_cost : DIFF_EDIT_COST);
+  diff_setOffsets_(diffs);
+  return diffs;
 }
@@ -0,0 +1,254 @@
+/**
+ * Port of diff-match-patch's match_main and match_bitap_ to token arrays:
+ * finds the best fuzzy match of a token pattern near an expected location.
+ */
+
+import { arrayIndexOf, arrayLastIndexOf } from "./str-array-cmp";
+
+/**
+ * At what point is no match declared (0.0 = perfection, 1.0 = very loose).
+ */
+const MATCH_THRESHOLD: f64 = 0.5;
+/**
+ * How far to search for a match (0 = exact location, 1000+ = broad match).
+ * A match this many tokens away from the expected location will add
+ * 1.0 to the score (0.0 is a perfect match).
+ */
+const MATCH_DISTANCE: i32 = 1000;
+/**
+ * The number of bits in an int, which limits the pattern length.
+ */
+const MATCH_MAX_BITS: i32 = 32;
+
+/**
+ * The threshold match_main uses when none is given.  A function rather than
+ * an exported constant, which JS would get as a WebAssembly.Global.
+ * @return {f64} MATCH_THRESHOLD.
+ */
+export function match_defaultThreshold(): f64 {
+  return MATCH_THRESHOLD;
+}
+
+/**
+ * The distance match_main uses when none is given, see
+ * match_defaultThreshold.
+ * @return {i32} MATCH_DISTANCE.
+ */
+export function match_defaultDistance(): i32 {
+  return MATCH_DISTANCE;
+}
+
+/**
+ * Locate the best instance of 'pattern' in 'text' near 'loc'.
+ * @param {Array.<string>} text The text to search.
+ * @param {Array.<string>} pattern The pattern to search for.
+ * @param {i32} loc The location to search around.
+ * @param {f64} threshold Worst score still accepted as a match.
+ * @param {i32} distance Number of tokens away from loc that adds 1.0 to the
+ *     score.
+ * @return {i32} Best match index or -1.
+ */
+export function match_main(
+  text: string[],
+  pattern: string[],
+  loc: i32,
+  threshold: f64 = MATCH_THRESHOLD,
+  distance: i32 = MATCH_DISTANCE
+): i32 {
+  loc = Math.max(0, Math.min(loc, text.length)) as i32;
+  if (str_array_equal(text, pattern)) {
+    // Shortcut (potentially not guaranteed by the algorithm)
+    return 0;
+  } else if (!text.length) {
+    // Nothing to match.
+    return -1;
+  } else if (
+    loc + pattern.length <= text.length &&
+    str_array_equal(text.slice(loc, loc + pattern.length), pattern)
+  ) {
+    // Perfect match at the perfect spot!  (Includes case of null pattern)
+    return loc;
+  } else {
+    // Do a fuzzy compare.
+    return match_bitap_(text, pattern, loc, threshold, distance);
+  }
+}
+
+/**
+ * Locate the best instance of 'pattern' in 'text' near 'loc' using the
+ * Bitap algorithm.
+ * @param {Array.<string>} text The text to search.
+ * @param {Array.<string>} pattern The pattern to search for.
+ * @param {i32} loc The location to search around.
+ * @param {f64} threshold Worst score still accepted as a match.
+ * @param {i32} distance Number of tokens away from loc that adds 1.0 to the
+ *     score.
+ * @return {i32} Best match index or -1.
+ */
+function match_bitap_(
+  text: string[],
+  pattern: string[],
+  loc: i32,
+  threshold: f64,
+  distance: i32
+): i32 {
+  if (pattern.length > MATCH_MAX_BITS) {
+    throw new Error(
+      "pattern too long, at most " + MATCH_MAX_BITS.toString() + " tokens"
+    );
+  }
+
+  // Initialise the alphabet.
+  const s = match_alphabet_(pattern);
+
+  // Highest score beyond which we give up.
+  let score_threshold = threshold;
+  // Is there a nearby exact match? (speedup)
+  let best_loc = arrayIndexOf(text, pattern, loc);
+  if (best_loc != -1) {
+    score_threshold = Math.min(
+      match_bitapScore_(0, best_loc, loc, pattern.length, distance),
+      score_threshold
+    );
+    // What about in the other direction? (speedup)
+    best_loc = arrayLastIndexOf(text, pattern, loc + pattern.length);
+    if (best_loc != -1) {
+      score_threshold = Math.min(
+        match_bitapScore_(0, best_loc, loc, pattern.length, distance),
+        score_threshold
+      );
+    }
+  }
+
+  // Initialise the bit arrays.
+  const matchmask = 1 << (pattern.length - 1);
+  best_loc = -1;
+
+  let bin_min: i32, bin_mid: i32;
+  let bin_max = pattern.length + text.length;
+  // Rows of the current and the previous error level, side by side.
+  const width = text.length + pattern.length + 2;
+  const rows = new Int32Array(2 * width);
+  for (let d: i32 = 0; d < pattern.length; d++) {
+    // Scan for the best match; each iteration allows for one more error.
+    // Run a binary search to determine how far from 'loc' we can stray at this
+    // error level.
+    bin_min = 0;
+    bin_mid = bin_max;
+    while (bin_min < bin_mid) {
+      if (
+        match_bitapScore_(d, loc + bin_mid, loc, pattern.length, distance) <=
+        score_threshold
+      ) {
+        bin_min = bin_mid;
+      } else {
+        bin_max = bin_mid;
+      }
+      bin_mid = (bin_max - bin_min) / 2 + bin_min;
+    }
+    // Use the result from this iteration as the maximum for the next.
+    bin_max = bin_mid;
+    let start = Math.max(1, loc - bin_mid + 1) as i32;
+    const finish =
+      (Math.min(loc + bin_mid, text.length) as i32) + pattern.length;
+
+    const rd = (d & 1) * width;
+    const last_rd = width - rd;
+    // Start every pass from an empty row.
+    rows.fill(0, rd, rd + width);
+    rows[rd + finish + 1] = (1 << d) - 1;
+    for (let j = finish; j >= start; j--) {
+      // Out of range tokens match nothing.
+      const charMatch =
+        j - 1 < text.length && s.has(text[j - 1]) ? s.get(text[j - 1]) : 0;
+      if (d === 0) {
+        // First pass: exact match.
+        rows[rd + j] = ((rows[rd + j + 1] << 1) | 1) & charMatch;
+      } else {
+        // Subsequent passes: fuzzy match.
+        rows[rd + j] =
+          (((rows[rd + j + 1] << 1) | 1) & charMatch) |
+          (((rows[last_rd + j + 1] | rows[last_rd + j]) << 1) | 1) |
+          rows[last_rd + j + 1];
+      }
+      if (rows[rd + j] & matchmask) {
+        const score = match_bitapScore_(
+          d,
+          j - 1,
+          loc,
+          pattern.length,
+          distance
+        );
+        // This match will almost certainly be better than any existing match.
+        // But check anyway.
+        if (score <= score_threshold) {
+          // Told you so.
+          score_threshold = score;
+          best_loc = j - 1;
+          if (best_loc > loc) {
+            // When passing loc, don't exceed our current distance from loc.
+            start = Math.max(1, 2 * loc - best_loc) as i32;
+          } else {
+            // Already passed loc, downhill from here on in.
+            break;
+          }
+        }
+      }
+    }
+    // No hope for a (better) match at greater error levels.
+    if (
+      match_bitapScore_(d + 1, loc, loc, pattern.length, distance) >
+      score_threshold
+    ) {
+      break;
+    }
+  }
+  return best_loc;
+}
+
+/**
+ * Compute and return the score for a match with e errors and x location.
+ * @param {i32} e Number of errors in match.
+ * @param {i32} x Location of match.
+ * @param {i32} loc Expected location of match.
+ * @param {i32} pattern_length Number of tokens in the pattern.
+ * @param {i32} distance Number of tokens away from loc that adds 1.0.
+ * @return {f64} Overall score for match (0.0 = good, 1.0 = bad).
+ */
+function match_bitapScore_(
+  e: i32,
+  x: i32,
+  loc: i32,
+  pattern_length: i32,
+  distance: i32
+): f64 {
+  const accuracy = (e as f64) / (pattern_length as f64);
+  const proximity = Math.abs(loc - x);
+  if (!distance) {
+    // Dodge divide by zero error.
+    return proximity ? 1.0 : accuracy;
+  }
+  return accuracy + (proximity as f64) / (distance as f64);
+}
+
+/**
+ * Initialise the alphabet for the Bitap algorithm.
+ * @param {Array.<string>} pattern The tokens to encode.
+ * @return {Map<string, i32>} Hash of token locations.
+ */
+function match_alphabet_(pattern: string[]): Map<string, i32> {
+  const s = new Map<string, i32>();
+  for (let i: i32 = 0; i < pattern.length; i++) {
+    const bit = 1 << (pattern.length - i - 1);
+    s.set(pattern[i], s.has(pattern[i]) ? s.get(pattern[i]) | bit : bit);
+  }
+  return s;
+}
+
+function str_array_equal(arr1: string[], arr2: string[]): boolean {
+  if (arr1.length !== arr2.length) return false;
+  for (let index: i32 = 0; index < arr1.length; index++) {
+    if (arr1[index] !== arr2[index]) return false;
+  }
+  return true;
+}
@@ -3,29 +3,68 @@
  */
 
 /**
- * Note: object will grow indefinitely! It is a good idea to free up the memory
- * using {@link resetStrArrCmpMemoryIfRequired}
+ * Ids handed out by internTokens: the id of every token and the token of
+ * every id.
  */
-const stringToArbitraryInt: Map<string, i32> = new Map();
-let arbitraryInt: i32 = 0;
+export class TokenTable {
+  ids: Map<string, i32> = new Map<string, i32>();
+  tokens: string[] = [];
+}
 
-export function resetStrArrCmpMemoryIfRequired(): void {
-  if (stringToArbitraryInt.size > 100) stringToArbitraryInt.clear();
+/**
+ * Replace every token by a small integer, equal tokens by equal integers.
+ * Share one table between the texts of a single call, or of a batch of
+ * calls, and drop it afterwards, so that ids stay dense and nothing is kept
+ * between calls.
+ * @param {TokenTable} table Ids seen so far, extended with the new tokens.
+ * @param {Array.<string>} tokens The tokens.
+ * @return {Array.<i32>} The id of every token.
+ */
+export function internTokens(table: TokenTable, tokens: string[]): i32[] {
+  const result = new Array<i32>(tokens.length);
+  for (let i: i32 = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!table.ids.has(token)) {
+      table.ids.set(token, table.tokens.length);
+      table.tokens.push(token);
+    }
+    result[i] = table.ids.get(token);
+  }
+  return result;
 }
 
-function getCmpValue(a: string): i32 {
-  if (stringToArbitraryInt.has(a)) return stringToArbitraryInt.get(a);
-  arbitraryInt += 1;
-  stringToArbitraryInt.set(a, arbitraryInt);
-  return arbitraryInt;
+/**
+ * Ids handed out by internKeys: the id of every key and the key of every id.
+ */
+export class KeyTable {
+  ids: Map<i32, i32> = new Map<i32, i32>();
+  keys: i32[] = [];
+}
+
+/**
+ * Replace every integer key by a small integer, equal keys by equal
+ * integers, like internTokens does for tokens.
+ * @param {KeyTable} table Ids seen so far, extended with the new keys.
+ * @param {Int32Array} keys The keys.
+ * @return {Array.<i32>} The id of every key.
+ */
+export function internKeys(table: KeyTable, keys: Int32Array): i32[] {
+  const result = new Array<i32>(keys.length);
+  for (let i: i32 = 0; i < keys.length; i++) {
+    const key = keys[i];
+    if (!table.ids.has(key)) {
+      table.ids.set(key, table.keys.length);
+      table.keys.push(key);
+    }
+    result[i] = table.ids.get(key);
+  }
+  return result;
 }
 
 /**
- * @returns the arbitrary positional difference between two strings
+ * @returns the order of two elements: 1, -1 or 0 if they're equal
  */
-function strelecmp(str1: string, str2: string): i32 {
-  const a = getCmpValue(str1);
-  const b = getCmpValue(str2);
+function elecmp<T>(a: T, b: T): i32 {
   if (a > b) return 1;
   if (a < b) return -1;
   // if (a == b)
@@ -38,21 +77,20 @@ class MaximalSuffixes {
 }
 
 /* Computing of the maximal suffix for <= */
-function maxSufForward(x: string[], m: i32, p: i32): MaximalSuffixes {
+function maxSufForward<T>(x: T[], m: i32, p: i32): MaximalSuffixes {
   let ms: i32, j: i32, k: i32;
-  let a: string, b: string;
 
   ms = -1;
   j = 0;
   k = p = 1;
   while (j + k < m) {
-    a = x[j + k];
-    b = x[ms + k];
-    if (strelecmp(a, b) < 0) {
+    const a = x[j + k];
+    const b = x[ms + k];
+    if (elecmp<T>(a, b) < 0) {
       j += k;
       k = 1;
       p = j - ms;
-    } else if (strelecmp(a, b) === 0)
+    } else if (elecmp<T>(a, b) === 0)
       if (k != p) ++k;
       else {
         j += p;
@@ -72,21 +110,21 @@ function maxSufForward(x: string[], m: i32, p: i32): MaximalSuffixes {
 }
 
 /* Computing of the maximal suffix for >= */
-function maxSufReverse(x: string[], m: i32, p: i32): MaximalSuffixes {
+function maxSufReverse<T>(x: T[], m: i32, p: i32): MaximalSuffixes {
   let ms: i32, j: i32, k: i32;
-  let a: string, b: string;
 
   ms = -1;
   j = 0;
   k = p = 1;
   while (j + k < m) {
-    a = x[j + k];
-    b = x[ms + k];
-    if (a > b) {
+    const a = x[j + k];
+    const b = x[ms + k];
+    // must use the same ordering as maxSufForward
+    if (elecmp<T>(a, b) > 0) {
       j += k;
       k = 1;
       p = j - ms;
-    } else if (a == b)
+    } else if (elecmp<T>(a, b) === 0)
       if (k != p) ++k;
       else {
         j += p;
@@ -106,17 +144,15 @@ function maxSufReverse(x: string[], m: i32, p: i32): MaximalSuffixes {
 }
 
 /* Two Way string matching algorithm. */
-export function arrayIndexOf(
-  source: string[],
-  target: string[],
+export function arrayIndexOf<T>(
+  source: T[],
+  target: T[],
   position: i32 = 0
 ): i32 {
-  resetStrArrCmpMemoryIfRequired();
-
-  source = source.slice(Math.max(0, position) as i32);
+  const offset: i32 = min(max(0, position), source.length);
 
   const m: i32 = target.length;
-  const n: i32 = source.length;
+  const n: i32 = source.length - offset;
   let forwardIndex: i32;
   let forwardPeriod: i32 = 0;
   let reverseIndex: i32;
@@ -126,10 +162,10 @@ export function arrayIndexOf(
   let period: i32;
 
   /* Preprocessing */
-  const msf = maxSufForward(target, m, forwardPeriod);
+  const msf = maxSufForward<T>(target, m, forwardPeriod);
   forwardIndex = msf.index;
-  forwardPeriod = msf.index;
-  const msr = maxSufReverse(target, m, reversePeriod);
+  forwardPeriod = msf.period;
+  const msr = maxSufReverse<T>(target, m, reversePeriod);
   reverseIndex = msr.index;
   reversePeriod = msr.period;
 
@@ -142,24 +178,24 @@ export function arrayIndexOf(
   }
 
   /* Searching */
-  if (strArrDiffAt(target, target.slice(period), elementIndex + 1) == 0) {
+  if (strArrDiffAt<T>(target, target.slice(period), elementIndex + 1) == 0) {
     reverseIndex = 0;
     memory = -1;
     while (reverseIndex <= n - m) {
       forwardIndex = max(elementIndex, memory) + 1;
       while (
         forwardIndex < m &&
-        target[forwardIndex] == source[forwardIndex + reverseIndex]
+        target[forwardIndex] == source[offset + forwardIndex + reverseIndex]
       )
         ++forwardIndex;
       if (forwardIndex >= m) {
         forwardIndex = elementIndex;
         while (
           forwardIndex > memory &&
-          target[forwardIndex] == source[forwardIndex + reverseIndex]
+          target[forwardIndex] == source[offset + forwardIndex + reverseIndex]
         )
           --forwardIndex;
-        if (forwardIndex <= memory) return reverseIndex;
+        if (forwardIndex <= memory) return reverseIndex + offset;
         reverseIndex += period;
         memory = m - period - 1;
       } else {
@@ -174,17 +210,17 @@ export function arrayIndexOf(
       forwardIndex = elementIndex + 1;
       while (
         forwardIndex < m &&
-        target[forwardIndex] == source[forwardIndex + reverseIndex]
+        target[forwardIndex] == source[offset + forwardIndex + reverseIndex]
       )
         ++forwardIndex;
       if (forwardIndex >= m) {
         forwardIndex = elementIndex;
         while (
           forwardIndex >= 0 &&
-          target[forwardIndex] == source[forwardIndex + reverseIndex]
+          target[forwardIndex] == source[offset + forwardIndex + reverseIndex]
         )
           --forwardIndex;
-        if (forwardIndex < 0) return reverseIndex;
+        if (forwardIndex < 0) return reverseIndex + offset;
         reverseIndex += period;
       } else reverseIndex += forwardIndex - elementIndex;
     }
@@ -192,8 +228,28 @@ export function arrayIndexOf(
   return -1;
 }
 
-function strArrDiffAt(x: string[], y: string[], count: i32): i32 {
+/**
+ * Index of the last occurrence of target in source that starts at or before
+ * position, or -1.
+ */
+export function arrayLastIndexOf<T>(
+  source: T[],
+  target: T[],
+  position: i32 = i32.MAX_VALUE
+): i32 {
+  let last: i32 = -1;
+  let index = arrayIndexOf<T>(source, target);
+  while (index !== -1 && index <= position) {
+    last = index;
+    if (index >= source.length) break;
+    index = arrayIndexOf<T>(source, target, index + 1);
+  }
+  return last;
+}
+
+function strArrDiffAt<T>(x: T[], y: T[], count: i32): i32 {
   for (let index: i32 = 0; index < count; index++) {
+    if (index >= x.length || index >= y.length) return index + 1;
     const x1 = x[index];
     const y1 = y[index];
     if (x1 !== y1) return index + 1;
@@ -204,3 +260,7 @@ function strArrDiffAt(x: string[], y: string[], count: i32): i32 {
 function max(i: i32, j: i32): i32 {
   return i > j ? i : j;
 }
+
+function min(i: i32, j: i32): i32 {
+  return i < j ? i : j;
+}
@@ -0,0 +1,300 @@
+/**
+ * Splits text into tokens for the word diff. Every mode is lossless: joining
+ * the tokens with an empty separator gives back the original text, so
+ * whitespace survives a diff round-trip untouched.
+ */
+
+/**
+ * How text is split into tokens.
+ */
+export enum Tokenizer {
+  /**
+   * Runs of whitespace and runs of everything else.
+   * "tail,  end" -> ["tail,", "  ", "end"]
+   */
+  Words = 0,
+  /**
+   * Like Words, but every punctuation character is a token of its own.
+   * "tail,  end" -> ["tail", ",", "  ", "end"]
+   */
+  WordsPunctuation = 1,
+  /**
+   * A simplified take on the Unicode word boundary rules (UAX #29): keeps
+   * "can't" and "3.14" together, splits ideographs into single characters
+   * and attaches combining marks to the character they modify.
+   */
+  Unicode = 2,
+  /**
+   * One token per character (code point), with combining marks attached to
+   * the character they modify.  "naïve" -> ["n", "a", "ï", "v", "e"]
+   */
+  Characters = 3,
+}
+
+const CLASS_WHITESPACE = 0;
+const CLASS_WORD = 1;
+const CLASS_PUNCTUATION = 2;
+const CLASS_IDEOGRAPH = 3;
+const CLASS_KATAKANA = 4;
+const CLASS_EXTEND = 5;
+const CLASS_REGIONAL = 6;
+const CLASS_OTHER = 7;
+
+const ZWJ = 0x200d;
+
+/**
+ * Split a string into tokens.
+ * @param {string} text String to split.
+ * @param {Tokenizer} mode How to split it.
+ * @return {Array.<string>} Tokens whose concatenation equals text.
+ */
+export function tokenize_text(text: string, mode: Tokenizer): string[] {
+  switch (mode) {
+    case Tokenizer.Words:
+      return tokenize_words_(text, false);
+    case Tokenizer.WordsPunctuation:
+      return tokenize_words_(text, true);
+    case Tokenizer.Unicode:
+      return tokenize_unicode_(text);
+    case Tokenizer.Characters:
+      return tokenize_characters_(text);
+    default:
+      throw new Error("unknown tokenizer mode: " + (mode as i32).toString());
+  }
+}
+
+/**
+ * Check whether a mode is one of Tokenizer.  Modes come from JS as plain
+ * numbers, so the exported functions check them before starting work.
+ * @param {i32} mode The mode.
+ * @return {boolean} True if tokenize_text accepts it.
+ */
+export function is_tokenizer(mode: i32): boolean {
+  return mode >= Tokenizer.Words && mode <= Tokenizer.Characters;
+}
+
+function tokenize_words_(text: string, split_punctuation: boolean): string[] {
+  const tokens: string[] = [];
+  let start: i32 = 0;
+  let prev_class: i32 = -1;
+  let i: i32 = 0;
+  while (i < text.length) {
+    const cp = text.codePointAt(i);
+    const width: i32 = cp > 0xffff ? 2 : 1;
+    const raw_class = char_class(cp);
+    let cls: i32 = CLASS_WORD;
+    if (raw_class === CLASS_WHITESPACE) {
+      cls = CLASS_WHITESPACE;
+    } else if (split_punctuation && raw_class === CLASS_PUNCTUATION) {
+      cls = CLASS_PUNCTUATION;
+    }
+    if (raw_class === CLASS_EXTEND && prev_class !== CLASS_WHITESPACE) {
+      // Keep combining marks on the character they modify.
+      cls = prev_class;
+    } else if (i > start && (cls !== prev_class || cls === CLASS_PUNCTUATION)) {
+      tokens.push(text.substring(start, i));
+      start = i;
+    }
+    prev_class = cls;
+    i += width;
+  }
+  if (start < text.length) {
+    tokens.push(text.substring(start));
+  }
+  return tokens;
+}
+
+function tokenize_unicode_(text: string): string[] {
+  const tokens: string[] = [];
+  let start: i32 = 0;
+  // class of the first character of the token being built
+  let token_class: i32 = -1;
+  let prev_cp: i32 = -1;
+  let regional_count: i32 = 0;
+  let i: i32 = 0;
+  while (i < text.length) {
+    const cp = text.codePointAt(i);
+    const width: i32 = cp > 0xffff ? 2 : 1;
+    const cls = char_class(cp);
+    let join = false;
+    if (i === start) {
+      join = true;
+    } else if (cls === CLASS_EXTEND && token_class !== CLASS_WHITESPACE) {
+      // WB4: combining marks, variation selectors and ZWJ stick to the left.
+      join = true;
+    } else if (prev_cp === ZWJ && cls === CLASS_OTHER) {
+      // WB3c: emoji ZWJ sequences.
+      join = true;
+    } else if (cls === CLASS_REGIONAL && token_class === CLASS_REGIONAL) {
+      // WB15/16: flags are pairs of regional indicators.
+      join = regional_count % 2 === 1;
+    } else if (cls === token_class) {
+      join =
+        cls === CLASS_WHITESPACE ||
+        cls === CLASS_WORD ||
+        cls === CLASS_KATAKANA;
+    } else if (
+      token_class === CLASS_WORD &&
+      is_mid_word(cp) &&
+      i + width < text.length &&
+      char_class(text.codePointAt(i + width)) === CLASS_WORD &&
+      mid_word_applies(cp, prev_cp, text.codePointAt(i + width))
+    ) {
+      // WB6/7 and WB11/12: "can't", "e.g", "3.14", "1,000".
+      join = true;
+    }
+
+    if (!join) {
+      tokens.push(text.substring(start, i));
+      start = i;
+      regional_count = 0;
+    }
+    if (i === start) {
+      token_class = cls;
+    }
+    if (cls === CLASS_REGIONAL) regional_count++;
+    prev_cp = cp;
+    i += width;
+  }
+  if (start < text.length) {
+    tokens.push(text.substring(start));
+  }
+  return tokens;
+}
+
+function tokenize_characters_(text: string): string[] {
+  const tokens: string[] = [];
+  let start: i32 = 0;
+  let i: i32 = 0;
+  while (i < text.length) {
+    const cp = text.codePointAt(i);
+    const width: i32 = cp > 0xffff ? 2 : 1;
+    if (i > start && char_class(cp) !== CLASS_EXTEND) {
+      tokens.push(text.substring(start, i));
+      start = i;
+    }
+    i += width;
+  }
+  if (start < text.length) {
+    tokens.push(text.substring(start));
+  }
+  return tokens;
+}
+
+/**
+ * Characters that may sit between two word characters without breaking the
+ * word: apostrophes, middle dots, periods, colons, commas and semicolons.
+ */
+function is_mid_word(cp: i32): boolean {
+  return (
+    cp === 0x27 || // '
+    cp === 0x2019 || // right single quotation mark
+    cp === 0xb7 || // middle dot
+    cp === 0x2e || // .
+    cp === 0x3a || // :
+    cp === 0x2c || // ,
+    cp === 0x3b // ;
+  );
+}
+
+/**
+ * Commas and semicolons only join digits (MidNum); colons only join letters
+ * (MidLetter); apostrophes and periods join either.
+ */
+function mid_word_applies(cp: i32, before: i32, after: i32): boolean {
+  const digits = is_digit(before) && is_digit(after);
+  if (cp === 0x2c || cp === 0x3b) return digits;
+  if (cp === 0x3a || cp === 0xb7) return !is_digit(before) && !is_digit(after);
+  return true;
+}
+
+function is_digit(cp: i32): boolean {
+  return cp >= 0x30 && cp <= 0x39;
+}
+
+export function is_whitespace(cp: i32): boolean {
+  return (
+    (cp >= 0x09 && cp <= 0x0d) ||
+    cp === 0x20 ||
+    cp === 0x85 ||
+    cp === 0xa0 ||
+    cp === 0x1680 ||
+    (cp >= 0x2000 && cp <= 0x200a) ||
+    cp === 0x2028 ||
+    cp === 0x2029 ||
+    cp === 0x202f ||
+    cp === 0x205f ||
+    cp === 0x3000 ||
+    cp === 0xfeff
+  );
+}
+
+export function is_punctuation(cp: i32): boolean {
+  return char_class(cp) === CLASS_PUNCTUATION;
+}
+
+function char_class(cp: i32): i32 {
+  if (is_whitespace(cp)) return CLASS_WHITESPACE;
+  if (cp < 0x80) {
+    if (
+      (cp >= 0x30 && cp <= 0x39) ||
+      (cp >= 0x41 && cp <= 0x5a) ||
+      (cp >= 0x61 && cp <= 0x7a) ||
+      cp === 0x5f // _
+    ) {
+      return CLASS_WORD;
+    }
+    return cp < 0x20 || cp === 0x7f ? CLASS_OTHER : CLASS_PUNCTUATION;
+  }
+  if (
+    (cp >= 0x0300 && cp <= 0x036f) ||
+    (cp >= 0x1ab0 && cp <= 0x1aff) ||
+    (cp >= 0x1dc0 && cp <= 0x1dff) ||
+    (cp >= 0x20d0 && cp <= 0x20ff) ||
+    (cp >= 0xfe00 && cp <= 0xfe0f) ||
+    (cp >= 0xfe20 && cp <= 0xfe2f) ||
+    (cp >= 0xe0100 && cp <= 0xe01ef) ||
+    (cp >= 0x1f3fb && cp <= 0x1f3ff) || // skin tone modifiers
+    cp === 0x200c ||
+    cp === ZWJ
+  ) {
+    return CLASS_EXTEND;
+  }
+  if (
+    (cp >= 0x3400 && cp <= 0x4dbf) ||
+    (cp >= 0x4e00 && cp <= 0x9fff) ||
+    (cp >= 0xf900 && cp <= 0xfaff) ||
+    (cp >= 0x20000 && cp <= 0x3ffff) ||
+    (cp >= 0x3040 && cp <= 0x309f) // hiragana
+  ) {
+    return CLASS_IDEOGRAPH;
+  }
+  if ((cp >= 0x30a0 && cp <= 0x30ff) || (cp >= 0x31f0 && cp <= 0x31ff)) {
+    return CLASS_KATAKANA;
+  }
+  if (cp >= 0x1f1e6 && cp <= 0x1f1ff) return CLASS_REGIONAL;
+  if (
+    (cp >= 0xa1 && cp <= 0xbf && cp !== 0xaa && cp !== 0xb5 && cp !== 0xba) ||
+    cp === 0xd7 ||
+    cp === 0xf7 ||
+    (cp >= 0x2010 && cp <= 0x205e) ||
+    (cp >= 0x3001 && cp <= 0x303f) ||
+    (cp >= 0xfe30 && cp <= 0xfe4f) ||
+    (cp >= 0xff01 && cp <= 0xff0f) ||
+    (cp >= 0xff1a && cp <= 0xff20) ||
+    (cp >= 0xff3b && cp <= 0xff40) ||
+    (cp >= 0xff5b && cp <= 0xff65)
+  ) {
+    return CLASS_PUNCTUATION;
+  }
+  if (
+    (cp >= 0x2100 && cp <= 0x2bff) || // arrows, math, dingbats, ...
+    (cp >= 0x1f000 && cp <= 0x1faff) || // emoji and pictographs
+    (cp >= 0xe000 && cp <= 0xf8ff) // private use
+  ) {
+    return CLASS_OTHER;
+  }
+  // Everything else is treated as a letter: Latin, Greek, Cyrillic, Hebrew,
+  // Arabic, Indic scripts, Hangul, ...
+  return CLASS_WORD;
+}
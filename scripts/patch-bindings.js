@@ -0,0 +1,85 @@
+/**
+ * The bindings generated by asc 0.20 lower values into memory with
+ * `new Uint32Array(memory.buffer)[pointer] = __lowerString(value);`.  The view
+ * is created before the right-hand side runs, so when lowering the value grows
+ * the memory, the write lands in the detached old buffer and is lost.  This
+ * rewrites every such store into `__store(Uint32Array, pointer, value)`, which
+ * creates the view after the value is ready.
+ *
+ * Usage: node scripts/patch-bindings.js build/release.js
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+
+const STORE =
+  /new (Int8Array|Uint8Array|Int16Array|Uint16Array|Int32Array|Uint32Array|Float32Array|Float64Array|BigInt64Array|BigUint64Array)\(memory\.buffer\)\[/g;
+const MEMORY = "const memory = exports.memory || imports.env.memory;";
+const HELPER =
+  "\n  function __store(View, index, value) { new View(memory.buffer)[index] = value; }";
+
+/**
+ * Find the index after the bracket closing the one opened before start.
+ */
+function closingBracket(source, start) {
+  let depth = 1;
+  let i = start;
+  while (depth) {
+    const c = source[i++];
+    if (c === "[") depth++;
+    else if (c === "]") depth--;
+  }
+  return i;
+}
+
+/**
+ * Find the end of the expression starting at start: the first semicolon or
+ * closing bracket that isn't nested inside it.
+ */
+function expressionEnd(source, start) {
+  let depth = 0;
+  for (let i = start; ; i++) {
+    const c = source[i];
+    if ("([{".includes(c)) depth++;
+    else if (")]}".includes(c)) {
+      if (!depth) return i;
+      depth--;
+    } else if (c === ";" && !depth) return i;
+  }
+}
+
+/**
+ * Rewrite the outermost stores; stores nested in their values are left for
+ * the next pass.
+ */
+function rewrite(source) {
+  let result = "";
+  let last = 0;
+  let match;
+  STORE.lastIndex = 0;
+  while ((match = STORE.exec(source))) {
+    const indexEnd = closingBracket(source, STORE.lastIndex);
+    if (!source.startsWith(" = ", indexEnd)) continue;
+    const index = source.slice(STORE.lastIndex, indexEnd - 1);
+    const valueEnd = expressionEnd(source, indexEnd + 3);
+    const value = source.slice(indexEnd + 3, valueEnd);
+    result +=
+      source.slice(last, match.index) +
+      `__store(${match[1]}, ${index}, ${value})`;
+    last = STORE.lastIndex = valueEnd;
+  }
+  return result + source.slice(last);
+}
+
+const file = process.argv[2];
+let source = readFileSync(file, "utf8");
+if (!source.includes(MEMORY)) {
+  throw new Error(`${file} doesn't look like asc 0.20 ESM bindings`);
+}
+if (!source.includes(HELPER)) {
+  for (let previous = ""; previous !== source; ) {
+    previous = source;
+    source = rewrite(source);
+  }
+  source = source.replace(MEMORY, MEMORY + HELPER);
+  writeFileSync(file, source);
+}
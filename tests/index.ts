@@ -1,5 +1,19 @@
+import assert = require("assert");
 import wd = require("../build/debug");
-const { diff } = wd;
+const {
+  diff,
+  patch_make,
+  patch_apply,
+  match_main,
+  merge3,
+  tokenize,
+  diff_toWordDiffPlain,
+  diff_toWordDiffPorcelain,
+  diff_toUnified,
+  diff_prettyHtml,
+  diff_cursor,
+  diff_selection,
+} = wd;
 
 function worddiff(text1: string, text2: string): ReturnType<typeof diff> {
   // only pass fix_unicode=true at the top level, not when diff_main is
@@ -14,3 +28,1526 @@ console.log(
     "this is an extremely long thread but we have the same tail and i can't even begin to imagine how long it is but we have the same tail"
   )
 );
+
+// Inputs of 0 to 6 tokens are diffed exactly, not replaced wholesale.
+const DIFF_DELETE = -1;
+const DIFF_INSERT = 1;
+const DIFF_EQUAL = 0;
+
+type DiffObject = Parameters<typeof wd.diff_text1>[0][number];
+type DiffOptions = NonNullable<Parameters<typeof diff>[2]>;
+
+/**
+ * Diff tuples like [[DIFF_EQUAL, "ab"]], with one token per character unless
+ * the tokens are given as an array.
+ */
+function tuples(...items: [number, string | string[]][]): DiffObject[] {
+  return items.map(([type, text]) => ({
+    type,
+    text: typeof text === "string" ? [...text] : text,
+    start1: 0,
+    end1: 0,
+    start2: 0,
+    end2: 0,
+  }));
+}
+
+/** The [type, text] pairs of diff tuples, with the tokens joined. */
+function pairs(diffs: DiffObject[]): [number, string][] {
+  return diffs.map((d) => [d.type as number, d.text.join("")]);
+}
+
+/** Diff options with the fields that aren't given left at their defaults. */
+function diffOptions(options: Partial<DiffOptions>): DiffOptions {
+  return {
+    timeout: undefined,
+    maxEdits: undefined,
+    cleanupSemantic: undefined,
+    cleanupEfficiency: undefined,
+    editCost: undefined,
+    shortcutLength: undefined,
+    lineMode: undefined,
+    algorithm: undefined,
+    moveMinLength: undefined,
+    ignoreCase: undefined,
+    ignorePunctuation: undefined,
+    normalization: undefined,
+    ignoreWhitespace: undefined,
+    ...options,
+  };
+}
+
+type WordDiffOptions = NonNullable<Parameters<typeof wd.worddiff>[2]>;
+
+/** Word diff options with the fields that aren't given left at defaults. */
+function wordDiffOptions(options: Partial<WordDiffOptions>): WordDiffOptions {
+  return {
+    tokenizer: undefined,
+    diff: undefined,
+    refine: undefined,
+    ...options,
+  };
+}
+
+function side(diffs: ReturnType<typeof diff>["diffs"], skip: number): string[] {
+  const tokens: string[] = [];
+  for (const d of diffs) {
+    if (d.type !== skip) tokens.push(...d.text);
+  }
+  return tokens;
+}
+
+/** A long line of the line mode texts, with one word that changes. */
+function longLine(n: number, word: string): string {
+  return `the long line ${n} has a ${word} word among many more words here\n`;
+}
+
+/** Three short lines of the line mode texts. */
+function shortLines(n: number): string {
+  return `short ${n}a\nshort ${n}b\nshort ${n}c\n`;
+}
+
+/**
+ * Texts for line mode: three long lines edited and moved below three short
+ * ones, with filler lines in between.
+ */
+function lineModeTexts(): [string, string] {
+  const filler = (n: number) =>
+    Array.from({ length: 30 }, (_, i) => `filler ${n}.${i}\n`).join("");
+  let old_text = filler(0);
+  let new_text = filler(0);
+  for (let n = 1; n <= 3; n++) {
+    old_text += longLine(n, "first") + shortLines(n) + filler(n);
+    new_text += shortLines(n) + longLine(n, "second") + filler(n);
+  }
+  return [old_text, new_text];
+}
+
+const words = ["a", "b", "c", "d", "e", "f"];
+for (let n1 = 0; n1 <= 6; n1++) {
+  for (let n2 = 0; n2 <= 6; n2++) {
+    const text1 = words.slice(0, n1);
+    // same tokens with the second one changed, so there is a common prefix
+    const text2 = words.slice(0, n2).map((w, i) => (i === 1 ? "x" : w));
+    const { diffs } = diff(text1, text2);
+    assert.deepStrictEqual(side(diffs, DIFF_INSERT), text1);
+    assert.deepStrictEqual(side(diffs, DIFF_DELETE), text2);
+    for (const d of diffs) assert.ok(d.text.length > 0);
+    // every shared token except the changed one is kept
+    const shared = Math.min(n1, n2);
+    const unchanged = diffs
+      .filter((d) => d.type === DIFF_EQUAL)
+      .reduce((n, d) => n + d.text.length, 0);
+    assert.strictEqual(unchanged, shared > 1 ? shared - 1 : shared);
+  }
+}
+
+// The old behaviour is still available as a tuning option.
+assert.deepStrictEqual(
+  diff(["a", "b"], ["a", "c"], diffOptions({ shortcutLength: 6 })).diffs.map(
+    ({ type, text }) => ({ type, text })
+  ),
+  [
+    { type: DIFF_DELETE, text: ["a", "b"] },
+    { type: DIFF_INSERT, text: ["a", "c"] },
+  ]
+);
+
+// Patches carry enough context to be applied to a text that moved around.
+{
+  const text1 = "the quick brown fox jumps over the lazy dog".split(" ");
+  const text2 = "the quick brown cat jumps over the lazy dog".split(" ");
+  const patches = patch_make(diff(text1, text2).diffs);
+  assert.deepStrictEqual(patch_apply(patches, text1).text, text2);
+
+  const moved = ["so"].concat(text1);
+  const result = patch_apply(patches, moved);
+  assert.deepStrictEqual(result.text, ["so"].concat(text2));
+  assert.deepStrictEqual(result.applied, [true]);
+
+  // Context that no longer matches needs fuzz.
+  const edited = "the slow brown fox jumps over the lazy dog".split(" ");
+  assert.deepStrictEqual(patch_apply(patches, edited).applied, [false]);
+  assert.deepStrictEqual(
+    patch_apply(patches, edited, { margin: 0, fuzz: 2 }).text,
+    "the slow brown cat jumps over the lazy dog".split(" ")
+  );
+}
+
+// Fuzzy matching finds a pattern that has since been edited.
+{
+  const text = "the quick brown fox jumps over the lazy dog".split(" ");
+  assert.strictEqual(match_main(text, ["fox", "jumps"], 0), 3);
+  assert.strictEqual(match_main(text, ["brwn", "fox", "jumps"], 2), 2);
+  assert.strictEqual(match_main(text, ["a", "b", "c"], 0), -1);
+  // a distance of 0 only accepts matches at the expected location
+  assert.strictEqual(match_main(text, ["fox", "jumped"], 0, 0.5, 0), -1);
+  assert.strictEqual(wd.match_defaultThreshold(), 0.5);
+  assert.strictEqual(wd.match_defaultDistance(), 1000);
+}
+
+// Three-way merges keep both sides' changes and flag overlapping ones.
+{
+  const base = "the quick brown fox".split(/(\s)/);
+  const ours = "the slow brown fox".split(/(\s)/);
+  const theirs = "the quick brown cat".split(/(\s)/);
+  const clean = merge3(base, ours, theirs);
+  assert.strictEqual(clean.conflicts, 0);
+  assert.deepStrictEqual(
+    clean.chunks.map((c) => c.text.join("")),
+    ["the slow brown cat"]
+  );
+
+  const conflict = merge3(base, ours, "the fast brown fox".split(/(\s)/));
+  assert.strictEqual(conflict.conflicts, 1);
+  assert.deepStrictEqual(conflict.chunks[1].base, ["quick"]);
+  assert.deepStrictEqual(conflict.chunks[1].ours, ["slow"]);
+  assert.deepStrictEqual(conflict.chunks[1].theirs, ["fast"]);
+}
+
+// Text formats compatible with git's word diff and diff -u.
+{
+  const { diffs } = diff(
+    tokenize("the quick brown\nfox jumps\n"),
+    tokenize("the slow brown\nfox jumps\n")
+  );
+  assert.strictEqual(
+    diff_toWordDiffPlain(diffs),
+    "the [-quick-]{+slow+} brown\nfox jumps\n"
+  );
+  assert.strictEqual(
+    diff_toWordDiffPorcelain(diffs),
+    " the \n-quick\n+slow\n  brown\n~\n fox jumps\n~\n"
+  );
+  assert.strictEqual(
+    diff_toUnified(diffs, 0),
+    "@@ -1 +1 @@\n-the quick brown\n+the slow brown\n"
+  );
+}
+
+// HTML output is escaped and takes the caller's class names.
+{
+  const { diffs } = diff(tokenize("a <b> c"), tokenize("a <i> c"));
+  assert.strictEqual(
+    diff_prettyHtml(diffs),
+    '<span>a </span><del style="background:#ffe6e6;">&lt;b&gt;</del>' +
+      '<ins style="background:#e6ffe6;">&lt;i&gt;</ins><span> c</span>'
+  );
+  assert.strictEqual(
+    diff_prettyHtml(diffs, {
+      insertClass: "added",
+      deleteClass: "removed",
+      equalClass: null,
+      showNewlines: false,
+    }),
+    '<span>a </span><del class="removed">&lt;b&gt;</del>' +
+      '<ins class="added">&lt;i&gt;</ins><span> c</span>'
+  );
+}
+
+// worddiff chunks carry the op, the tokens and where they sit in both texts.
+{
+  const { chunks } = wd.worddiff("the quick fox", "the slow fox");
+  const summary = chunks.map(({ op, tokens, text, start1, start2 }) => ({
+    op,
+    tokens,
+    text,
+    start1,
+    start2,
+  }));
+  assert.deepStrictEqual(summary, [
+    {
+      op: wd.DiffOp.Equal,
+      tokens: ["the", " "],
+      text: "the ",
+      start1: 0,
+      start2: 0,
+    },
+    {
+      op: wd.DiffOp.Delete,
+      tokens: ["quick"],
+      text: "quick",
+      start1: 2,
+      start2: 2,
+    },
+    {
+      op: wd.DiffOp.Insert,
+      tokens: ["slow"],
+      text: "slow",
+      start1: 3,
+      start2: 2,
+    },
+    {
+      op: wd.DiffOp.Equal,
+      tokens: [" ", "fox"],
+      text: " fox",
+      start1: 3,
+      start2: 3,
+    },
+  ]);
+}
+
+// Every chunk knows its token range in both texts, and worddiff chunks also
+// know their UTF-16 range in the input strings.
+{
+  const { diffs } = diff(["a", "b", "c"], ["a", "x", "y", "c"]);
+  assert.deepStrictEqual(
+    diffs.map((d) => [d.type, d.start1, d.end1, d.start2, d.end2]),
+    [
+      [DIFF_EQUAL, 0, 1, 0, 1],
+      [DIFF_DELETE, 1, 2, 1, 1],
+      [DIFF_INSERT, 2, 2, 1, 3],
+      [DIFF_EQUAL, 2, 3, 3, 4],
+    ]
+  );
+
+  const text1 = "the 🦊 jumps";
+  const text2 = "the 🐈 jumps";
+  for (const c of wd.worddiff(text1, text2).chunks) {
+    if (c.op !== wd.DiffOp.Insert) {
+      assert.strictEqual(text1.substring(c.charStart1, c.charEnd1), c.text);
+    }
+    if (c.op !== wd.DiffOp.Delete) {
+      assert.strictEqual(text2.substring(c.charStart2, c.charEnd2), c.text);
+    }
+  }
+}
+
+// A cursor or selection picks the edit the user made out of several
+// equally short ones, one case per branch of find_cursor_edit_diff.
+{
+  const ops = (result: ReturnType<typeof diff>) =>
+    result.diffs.map(({ type, text }) => [type, text.join("")]);
+  const range = (index: number, length: number) => ({ index, length });
+
+  // Without a cursor the common prefix wins.
+  assert.deepStrictEqual(ops(diff(["x", "x", "x"], ["x", "x"])), [
+    [DIFF_EQUAL, "xx"],
+    [DIFF_DELETE, "x"],
+  ]);
+  // Backspace: the token right before the cursor is gone.
+  assert.deepStrictEqual(ops(diff_cursor(["x", "x", "x"], ["x", "x"], 1)), [
+    [DIFF_DELETE, "x"],
+    [DIFF_EQUAL, "xx"],
+  ]);
+  // Typing: a token appears right before the cursor.
+  assert.deepStrictEqual(
+    ops(
+      diff_selection(["x", "x"], ["x", "x", "x"], {
+        oldRange: range(0, 0),
+        newRange: range(1, 0),
+      })
+    ),
+    [
+      [DIFF_INSERT, "x"],
+      [DIFF_EQUAL, "xx"],
+    ]
+  );
+  // Forward delete: the token right after the cursor is gone.
+  assert.deepStrictEqual(
+    ops(
+      diff_selection(["x", "x", "x"], ["x", "x"], {
+        oldRange: range(1, 0),
+        newRange: range(1, 0),
+      })
+    ),
+    [
+      [DIFF_EQUAL, "x"],
+      [DIFF_DELETE, "x"],
+      [DIFF_EQUAL, "x"],
+    ]
+  );
+  // Typing over a selection replaces exactly the selected tokens.
+  assert.deepStrictEqual(
+    ops(
+      diff_selection(["x", "x", "x"], ["x", "x"], {
+        oldRange: range(1, 2),
+        newRange: range(2, 0),
+      })
+    ),
+    [
+      [DIFF_EQUAL, "x"],
+      [DIFF_DELETE, "xx"],
+      [DIFF_INSERT, "x"],
+    ]
+  );
+  // worddiff takes UTF-16 offsets instead of token indices.
+  assert.deepStrictEqual(
+    wd.worddiff_cursor("a a a", "a a", 2).chunks.map((c) => [c.op, c.text]),
+    [
+      [DIFF_DELETE, "a "],
+      [DIFF_EQUAL, "a a"],
+    ]
+  );
+  assert.throws(() => diff_cursor(["x"], ["y"], 2));
+}
+
+// Refinement: a replaced word gets a character diff of what changed inside it.
+{
+  const { chunks } = wd.worddiff(
+    "they fanthom it",
+    "they fathom it",
+    wordDiffOptions({ refine: true })
+  );
+  const parts = (c: (typeof chunks)[0]) =>
+    c.parts && c.parts.map((p) => [p.op, p.text, p.charStart, p.charEnd]);
+  assert.deepStrictEqual(
+    chunks.map((c) => [c.op, c.text]),
+    [
+      [DIFF_EQUAL, "they "],
+      [DIFF_DELETE, "fanthom"],
+      [DIFF_INSERT, "fathom"],
+      [DIFF_EQUAL, " it"],
+    ]
+  );
+  assert.strictEqual(chunks[0].parts, null);
+  assert.deepStrictEqual(parts(chunks[1]), [
+    [DIFF_EQUAL, "fa", 5, 7],
+    [DIFF_DELETE, "n", 7, 8],
+    [DIFF_EQUAL, "thom", 8, 12],
+  ]);
+  assert.deepStrictEqual(parts(chunks[2]), [[DIFF_EQUAL, "fathom", 5, 11]]);
+  // Words too different in length are left whole.
+  const long = wd.worddiff(
+    "a cat",
+    "a catastrophe",
+    wordDiffOptions({ refine: true })
+  );
+  assert.strictEqual(long.chunks[1].parts, null);
+  assert.deepStrictEqual(tokenize("naïve 😀", wd.Tokenizer.Characters), [
+    "n",
+    "a",
+    "ï",
+    "v",
+    "e",
+    " ",
+    "😀",
+  ]);
+}
+
+// Line mode: unchanged lines are matched whole, changed lines word by word.
+// A long line edited and moved below three short ones is matched word by
+// word in a plain diff, but the three short lines stay the longest run of
+// equal lines, so line mode replaces the long line whole.
+{
+  const [old_text, new_text] = lineModeTexts();
+  const text1 = tokenize(old_text);
+  const text2 = tokenize(new_text);
+  const edits = (options: Partial<DiffOptions>) => {
+    const { diffs } = diff(text1, text2, diffOptions(options));
+    assert.deepStrictEqual(side(diffs, DIFF_INSERT), text1);
+    assert.deepStrictEqual(side(diffs, DIFF_DELETE), text2);
+    return pairs(diffs.filter((d) => d.type !== DIFF_EQUAL));
+  };
+  // Where the line break goes depends on how the edit slides in cleanup.
+  const lines = edits({ lineMode: true }).map(([type, text]) => [
+    type,
+    text.trim(),
+  ]);
+  assert.deepStrictEqual(lines, [
+    [DIFF_DELETE, longLine(1, "first").trim()],
+    [DIFF_INSERT, longLine(1, "second").trim()],
+    [DIFF_DELETE, longLine(2, "first").trim()],
+    [DIFF_INSERT, longLine(2, "second").trim()],
+    [DIFF_DELETE, longLine(3, "first").trim()],
+    [DIFF_INSERT, longLine(3, "second").trim()],
+  ]);
+  assert.deepStrictEqual(edits({}).slice(0, 4), [
+    [DIFF_INSERT, shortLines(1)],
+    [DIFF_DELETE, "first"],
+    [DIFF_INSERT, "second"],
+    [DIFF_DELETE, shortLines(1)],
+  ]);
+}
+
+// Line mode on interned comparison keys: the lines are found in the keys,
+// and the long lines are still replaced whole, with the tokens of their
+// own side.
+{
+  const [old_text, new_text] = lineModeTexts();
+  const edits = (text2: string, options: Partial<DiffOptions>) =>
+    diff(
+      tokenize(old_text),
+      tokenize(text2),
+      diffOptions({ lineMode: true, ...options })
+    )
+      .diffs.filter((d) => d.type !== DIFF_EQUAL)
+      .map((d) => [d.type, d.text.join("").trim()]);
+  const expected = (line: (n: number) => string) =>
+    [1, 2, 3].flatMap((n) => [
+      [DIFF_DELETE, longLine(n, "first").trim()],
+      [DIFF_INSERT, line(n).trim()],
+    ]);
+  assert.deepStrictEqual(
+    edits(new_text.toUpperCase(), { ignoreCase: true }),
+    expected((n) => longLine(n, "second").toUpperCase())
+  );
+  assert.deepStrictEqual(
+    edits(new_text.replace(/ /g, "  "), { ignoreWhitespace: true }),
+    expected((n) => longLine(n, "second").replace(/ /g, "  "))
+  );
+}
+
+// Patience and histogram diffs keep reordered sentences whole instead of
+// aligning them on filler words.
+{
+  const text1 = tokenize("the cat sat on the mat and the dog ran to the park");
+  const text2 = tokenize("the dog ran to the park and the cat sat on the mat");
+  const summary = (algorithm: number) =>
+    diff(text1, text2, diffOptions({ algorithm })).diffs.map((d) => [
+      d.type,
+      d.text.join(""),
+    ]);
+  assert.ok(summary(wd.DiffAlgorithm.Myers).length > 3);
+  assert.deepStrictEqual(summary(wd.DiffAlgorithm.Patience), [
+    [DIFF_INSERT, "the dog ran to the park and "],
+    [DIFF_EQUAL, "the cat sat on the mat"],
+    [DIFF_DELETE, " and the dog ran to the park"],
+  ]);
+  assert.deepStrictEqual(summary(wd.DiffAlgorithm.Histogram), [
+    [DIFF_DELETE, "the cat sat on the mat and "],
+    [DIFF_EQUAL, "the dog ran to the park"],
+    [DIFF_INSERT, " and the cat sat on the mat"],
+  ]);
+}
+
+// Moves: a sentence deleted in one place and inserted in another.
+{
+  const text1 = tokenize("First point. Second point. Third point. ");
+  const text2 = tokenize("Second point. Third point. First point. ");
+  const result = diff(
+    text1,
+    text2,
+    diffOptions({ algorithm: wd.DiffAlgorithm.Patience, moveMinLength: 3 })
+  );
+  assert.deepStrictEqual(
+    result.moves.map((m) => [
+      m.text.join(""),
+      m.from,
+      m.to,
+      m.start1,
+      m.end1,
+      m.start2,
+      m.end2,
+    ]),
+    [["First point. ", 0, 2, 0, 4, 8, 12]]
+  );
+  assert.deepStrictEqual(diff(text1, text2).moves, []);
+
+  // worddiff reports the moved run as a Move chunk where it was inserted,
+  // with the range it was deleted from in text1.
+  const { chunks } = wd.worddiff(
+    "First point. Second point. Third point. ",
+    "Second point. Third point. First point. ",
+    wordDiffOptions({
+      diff: diffOptions({
+        algorithm: wd.DiffAlgorithm.Patience,
+        moveMinLength: 3,
+      }),
+    })
+  );
+  assert.deepStrictEqual(
+    chunks.map((c) => [
+      c.op,
+      c.text,
+      c.start1,
+      c.end1,
+      c.start2,
+      c.end2,
+      c.charStart1,
+      c.charEnd1,
+      c.charStart2,
+      c.charEnd2,
+    ]),
+    [
+      [DIFF_EQUAL, "Second point. Third point. ", 4, 12, 0, 8, 13, 40, 0, 27],
+      [wd.DiffOp.Move, "First point. ", 0, 4, 8, 12, 0, 13, 27, 40],
+    ]
+  );
+}
+
+// Move detection compares a bounded number of token pairs, so a move
+// between two edits too long to compare is left undetected.
+{
+  const moved = (length: number) => {
+    const anchor: string[] = new Array(20).fill("same");
+    const run = ["a", "moved", "run"];
+    const filler = (prefix: string) => {
+      const tokens: string[] = [];
+      for (let i = 0; i < length / 2; i++) tokens.push(prefix + i);
+      return tokens;
+    };
+    const text1 = [...anchor, ...filler("x"), ...run, ...filler("y")];
+    const text2 = [...filler("u"), ...run, ...filler("v"), ...anchor];
+    return diff(text1, text2, diffOptions({ moveMinLength: 3 })).moves.map(
+      (m) => m.text.join(" ")
+    );
+  };
+  assert.deepStrictEqual(moved(1000), ["a moved run"]);
+  assert.deepStrictEqual(moved(5000), []);
+}
+
+// Comparison modes change what matches, never the tokens returned.
+{
+  const summary = (
+    text1: string,
+    text2: string,
+    options: Partial<DiffOptions>
+  ) =>
+    diff(tokenize(text1), tokenize(text2), diffOptions(options)).diffs.map(
+      (d) => [d.type, d.text.join(""), d.start2, d.end2]
+    );
+  assert.deepStrictEqual(
+    summary("The end, my friend.", "the end my Friend", {
+      ignoreCase: true,
+      ignorePunctuation: true,
+    }),
+    [[DIFF_EQUAL, "The end, my friend.", 0, 7]]
+  );
+  assert.deepStrictEqual(
+    summary("café  ok", "café ok", {
+      normalization: wd.Normalization.NFC,
+      ignoreWhitespace: true,
+    }),
+    [[DIFF_EQUAL, "café  ok", 0, 3]]
+  );
+  assert.deepStrictEqual(
+    pairs(
+      diff(
+        ["f", "(x)", " ", "=", " ", "1"],
+        ["f", " ", "(x)", "  ", "=", "\t", "1"],
+        diffOptions({ ignoreWhitespace: true })
+      ).diffs
+    ),
+    [
+      [DIFF_EQUAL, "f"],
+      [DIFF_INSERT, " "],
+      [DIFF_EQUAL, "(x) = 1"],
+    ]
+  );
+  assert.deepStrictEqual(
+    summary("ﬁne", "fine", { normalization: wd.Normalization.NFC }),
+    [
+      [DIFF_DELETE, "ﬁne", 0, 0],
+      [DIFF_INSERT, "fine", 0, 1],
+    ]
+  );
+  assert.deepStrictEqual(
+    summary("ﬁne", "fine", { normalization: wd.Normalization.NFKC }),
+    [[DIFF_EQUAL, "ﬁne", 0, 1]]
+  );
+  assert.deepStrictEqual(summary("a b", "a\nb", { ignoreWhitespace: true }), [
+    [DIFF_EQUAL, "a", 0, 1],
+    [DIFF_DELETE, " ", 1, 1],
+    [DIFF_INSERT, "\n", 1, 2],
+    [DIFF_EQUAL, "b", 2, 3],
+  ]);
+
+  // Moves found on the keys hold the moved tokens of text1, the insertion
+  // they pair with those of text2.
+  const { diffs, moves } = diff(
+    tokenize("First point. Second point. Third point. "),
+    tokenize("second point. third point. FIRST POINT. "),
+    diffOptions({
+      algorithm: wd.DiffAlgorithm.Patience,
+      moveMinLength: 3,
+      ignoreCase: true,
+    })
+  );
+  assert.deepStrictEqual(pairs(diffs), [
+    [DIFF_DELETE, "First point. "],
+    [DIFF_EQUAL, "Second point. Third point. "],
+    [DIFF_INSERT, "FIRST POINT. "],
+  ]);
+  assert.deepStrictEqual(
+    moves.map((m) => [m.text.join(""), m.start1, m.end1, m.start2, m.end2]),
+    [["First point. ", 0, 4, 8, 12]]
+  );
+}
+
+// Integer keys: equality is up to the caller, results are index ranges.
+{
+  const items1 = [{ id: 7 }, { id: -1 }, { id: 65536 }, { id: 0 }];
+  const items2 = [{ id: 7 }, { id: 65536 }, { id: 1 << 20 }, { id: 0 }];
+  const { diffs } = wd.diff_keys(
+    Int32Array.from(items1, (item) => item.id),
+    Int32Array.from(items2, (item) => item.id)
+  );
+  assert.deepStrictEqual(
+    diffs.map((d) => [d.type, d.start1, d.end1, d.start2, d.end2]),
+    [
+      [DIFF_EQUAL, 0, 1, 0, 1],
+      [DIFF_DELETE, 1, 2, 1, 1],
+      [DIFF_EQUAL, 2, 3, 1, 2],
+      [DIFF_INSERT, 3, 3, 2, 3],
+      [DIFF_EQUAL, 3, 4, 3, 4],
+    ]
+  );
+}
+
+// Integer keys take every diff option that applies to them: a moved run is
+// found here, and line mode is ignored rather than failing.
+{
+  const keys1 = Int32Array.from([1, 2, 3, 10, 11, 12, 13]);
+  const keys2 = Int32Array.from([10, 11, 12, 13, 1, 2, 3]);
+  const result = wd.diff_keys(
+    keys1,
+    keys2,
+    diffOptions({
+      algorithm: wd.DiffAlgorithm.Patience,
+      moveMinLength: 3,
+      lineMode: true,
+    })
+  );
+  assert.deepStrictEqual(
+    result.diffs.map((d) => [d.type, d.start1, d.end1, d.start2, d.end2]),
+    [
+      [DIFF_DELETE, 0, 3, 0, 0],
+      [DIFF_EQUAL, 3, 7, 0, 4],
+      [DIFF_INSERT, 7, 7, 4, 7],
+    ]
+  );
+  assert.deepStrictEqual(
+    result.moves.map((m) => [m.from, m.to, m.start1, m.end1, m.start2, m.end2]),
+    [[0, 2, 0, 3, 4, 7]]
+  );
+  assert.deepStrictEqual(wd.diff_keys(keys1, keys2).moves, []);
+}
+
+// Statistics and similarity.
+{
+  const stats = wd.diff_stats(
+    tuples(
+      [DIFF_DELETE, ["a", " "]],
+      [DIFF_INSERT, ["b"]],
+      [DIFF_EQUAL, ["c", " ", "d"]],
+      [DIFF_INSERT, [" ", "e"]]
+    )
+  );
+  assert.deepStrictEqual(
+    [stats.inserted, stats.deleted, stats.unchanged, stats.hunks],
+    [3, 2, 3, 2]
+  );
+  assert.strictEqual(stats.levenshtein, 4);
+  assert.strictEqual(stats.similarity, 6 / 11);
+  assert.strictEqual(wd.similarity([], []), 1);
+  assert.strictEqual(wd.similarity(["a"], ["b"]), 0);
+  assert.strictEqual(
+    wd.similarity(
+      tokenize("Hello World"),
+      tokenize("hello world"),
+      diffOptions({
+        ignoreCase: true,
+      })
+    ),
+    1
+  );
+}
+
+// Both texts can be rebuilt from a diff, whitespace included.
+{
+  const text1 = tokenize("the  quick brown\tfox\n");
+  const text2 = tokenize("the quick red fox\n\n");
+  const { diffs } = diff(text1, text2, diffOptions({ cleanupSemantic: true }));
+  assert.deepStrictEqual(wd.diff_text1(diffs), text1);
+  assert.deepStrictEqual(wd.diff_text2(diffs), text2);
+}
+
+// Deltas: counts for kept and deleted tokens, escaped inserted tokens.
+{
+  const text1 = ["a", " ", "b", " ", "c"];
+  const text2 = ["a", " ", "x,y", "\t", "c"];
+  const { diffs } = diff(text1, text2);
+  const delta = wd.diff_toDelta(diffs);
+  assert.strictEqual(delta, "=2\t-2\t+x%2Cy,%09\t=1");
+  assert.deepStrictEqual(wd.diff_fromDelta(text1, delta), diffs);
+  assert.deepStrictEqual(
+    wd.diff_fromDeltaBinary(text1, wd.diff_toDeltaBinary(diffs)),
+    diffs
+  );
+  assert.throws(() => wd.diff_fromDelta(["a"], "=2"));
+}
+
+// Binary deltas: malformed or truncated input is rejected.
+{
+  const text1 = ["a", " ", "b", " ", "c"];
+  const text2 = ["a", " ", "x,y", "\t", "c"];
+  const delta = wd.diff_toDeltaBinary(diff(text1, text2).diffs);
+  for (let length = 0; length < delta.length; length++) {
+    assert.throws(() => wd.diff_fromDeltaBinary(text1, delta.slice(0, length)));
+  }
+  const rejects = (bytes: number[]) =>
+    assert.throws(() => wd.diff_fromDeltaBinary([], Uint8Array.from(bytes)));
+  // An insertion of 2^30 - 1 tokens in five bytes.
+  rejects([0xfe, 0xff, 0xff, 0xff, 0x0f]);
+  // Bits past the 32nd in the fifth byte of a varint.
+  rejects([0x82, 0x80, 0x80, 0x80, 0x10]);
+  // A token longer than the rest of the delta.
+  rejects([0x06, 0x05, 0x61]);
+  // No operation has kind 3.
+  rejects([0x07]);
+  assert.deepStrictEqual(
+    pairs(wd.diff_fromDeltaBinary([], Uint8Array.from([0x06, 0x01, 0x61]))),
+    [[DIFF_INSERT, "a"]]
+  );
+}
+
+// Validation: a diff must rebuild both texts exactly.
+{
+  const text1 = tokenize("the quick brown fox");
+  const text2 = tokenize("the slow brown fox");
+  const { diffs } = diff(text1, text2);
+  wd.diff_validate(diffs, text1, text2);
+  assert.throws(() => wd.diff_validate(diffs, text2, text1));
+  assert.throws(() => wd.diff_validate(diffs, text1, text2.slice(1)));
+  const corrupted = diffs.map((d) =>
+    d.type === DIFF_EQUAL ? { ...d, text: d.text.map((t) => t + "!") } : d
+  );
+  assert.throws(() => wd.diff_validate(corrupted, text1, text2));
+  const dropped = diffs.filter((d) => d.type !== DIFF_INSERT);
+  assert.throws(() => wd.diff_validate(dropped, text1, text2));
+}
+
+// Undo, chained edits and concurrent edits.
+{
+  const text1 = tokenize("the quick brown fox");
+  const text2 = tokenize("the slow brown fox");
+  const text3 = tokenize("the slow brown dog");
+  const edit1 = diff(text1, text2).diffs;
+  const edit2 = diff(text2, text3).diffs;
+  assert.deepStrictEqual(wd.diff_invert(edit1), diff(text2, text1).diffs);
+  assert.deepStrictEqual(
+    wd.diff_text2(wd.diff_compose(edit1, edit2)).join(""),
+    "the slow brown dog"
+  );
+
+  // Two users edit text1 at the same time.
+  const ours = diff(text1, tokenize("the quick red fox")).diffs;
+  const theirs = diff(text1, tokenize("a quick brown fox")).diffs;
+  const rebased = wd.diff_transform(ours, theirs);
+  assert.deepStrictEqual(wd.diff_text1(rebased).join(""), "a quick brown fox");
+  assert.deepStrictEqual(wd.diff_text2(rebased).join(""), "a quick red fox");
+  assert.deepStrictEqual(
+    wd.diff_text2(wd.diff_transform(theirs, ours, true)),
+    wd.diff_text2(rebased)
+  );
+}
+
+// Batches: one packed string in, one packed Int32Array out.
+{
+  const pairs = [
+    ["red shirt", "blue shirt"],
+    ["", "new"],
+    ["same", "same"],
+  ];
+  const batch = (pairs: string[][], options: WordDiffOptions | null = null) => {
+    const offsets = [0];
+    for (const [text1, text2] of pairs) {
+      offsets.push(offsets[offsets.length - 1] + text1.length);
+      offsets.push(offsets[offsets.length - 1] + text2.length);
+    }
+    return wd.worddiff_batch(
+      pairs.flat().join(""),
+      Int32Array.from(offsets),
+      options
+    );
+  };
+  const packed = batch(pairs);
+  const records = pairs.map((_, k) =>
+    Array.from(packed.subarray(packed[k], packed[k + 1]))
+  );
+  assert.deepStrictEqual(records, [
+    [
+      0,
+      ...[DIFF_DELETE, 0, 3, 0, 0, 0],
+      ...[DIFF_INSERT, 3, 3, 0, 4, 0],
+      ...[DIFF_EQUAL, 3, 9, 4, 10, 0],
+    ],
+    [0, ...[DIFF_INSERT, 0, 0, 0, 3, 0]],
+    [0, ...[DIFF_EQUAL, 0, 4, 0, 4, 0]],
+  ]);
+  assert.strictEqual(packed[pairs.length], packed.length);
+
+  // With every option, a batch packs what worddiff returns for each pair.
+  const options = wordDiffOptions({
+    refine: true,
+    diff: diffOptions({ cleanupSemantic: true }),
+  });
+  const refined_pairs = [
+    ["they fanthom it", "they fathom it"],
+    ["colour", "color"],
+    ["", "new"],
+  ];
+  const refined = batch(refined_pairs, options);
+  refined_pairs.forEach(([text1, text2], k) => {
+    const { chunks, truncated } = wd.worddiff(text1, text2, options);
+    const record = [truncated ? 1 : 0];
+    for (const c of chunks) {
+      record.push(c.op, c.charStart1, c.charEnd1, c.charStart2, c.charEnd2);
+      record.push(c.parts ? c.parts.length : 0);
+      for (const p of c.parts || []) record.push(p.op, p.charStart, p.charEnd);
+    }
+    assert.deepStrictEqual(
+      Array.from(refined.subarray(refined[k], refined[k + 1])),
+      record
+    );
+  });
+  // The records above really carry refined parts.
+  const [text1, text2] = refined_pairs[0];
+  assert.ok(wd.worddiff(text1, text2, options).chunks.some((c) => c.parts));
+}
+
+// Tokenizer modes, and joining the tokens always gives the text back.
+{
+  const text = "can't stop: 3.14 and 1,000 now.";
+  assert.deepStrictEqual(tokenize(text, wd.Tokenizer.Words), [
+    "can't",
+    " ",
+    "stop:",
+    " ",
+    "3.14",
+    " ",
+    "and",
+    " ",
+    "1,000",
+    " ",
+    "now.",
+  ]);
+  assert.deepStrictEqual(tokenize(text, wd.Tokenizer.WordsPunctuation), [
+    "can",
+    "'",
+    "t",
+    " ",
+    "stop",
+    ":",
+    " ",
+    "3",
+    ".",
+    "14",
+    " ",
+    "and",
+    " ",
+    "1",
+    ",",
+    "000",
+    " ",
+    "now",
+    ".",
+  ]);
+  assert.deepStrictEqual(tokenize(text, wd.Tokenizer.Unicode), [
+    "can't",
+    " ",
+    "stop",
+    ":",
+    " ",
+    "3.14",
+    " ",
+    "and",
+    " ",
+    "1,000",
+    " ",
+    "now",
+    ".",
+  ]);
+  // Combining marks stay on their letter, in every mode.
+  const accents = "cafe\u0301, nai\u0308ve";
+  for (const mode of [
+    wd.Tokenizer.Words,
+    wd.Tokenizer.WordsPunctuation,
+    wd.Tokenizer.Unicode,
+  ]) {
+    assert.ok(tokenize(accents, mode).includes("nai\u0308ve"));
+  }
+  assert.deepStrictEqual(tokenize(accents, wd.Tokenizer.Unicode), [
+    "cafe\u0301",
+    ",",
+    " ",
+    "nai\u0308ve",
+  ]);
+  // ZWJ sequences stay whole, flags pair up, ideographs stand alone.
+  assert.deepStrictEqual(
+    tokenize("👩‍👩‍👧 🇯🇵🇫🇷! 日本語のカタカナ", wd.Tokenizer.Unicode),
+    ["👩‍👩‍👧", " ", "🇯🇵", "🇫🇷", "!", " ", "日", "本", "語", "の", "カタカナ"]
+  );
+
+  const samples = [
+    text,
+    accents,
+    "👩‍👩‍👧 🇯🇵🇫🇷! 日本語のカタカナ",
+    "  leading\ttabs,\r\nCRLF  and trailing  ",
+    "",
+  ];
+  for (const sample of samples) {
+    for (const mode of [
+      wd.Tokenizer.Words,
+      wd.Tokenizer.WordsPunctuation,
+      wd.Tokenizer.Unicode,
+      wd.Tokenizer.Characters,
+    ]) {
+      assert.strictEqual(tokenize(sample, mode).join(""), sample);
+    }
+  }
+}
+
+// Tokenizer modes are plain numbers in JS, and unknown ones are rejected.
+{
+  assert.strictEqual(wd.Tokenizer.Characters, 3);
+  assert.throws(() => tokenize("a b", 4), /unknown tokenizer mode/);
+  assert.throws(
+    () => wd.worddiff("a", "b", wordDiffOptions({ tokenizer: -1 })),
+    /unknown tokenizer mode/
+  );
+}
+
+// diff_cleanupMerge, ported from the upstream tests.
+{
+  const merge = (...items: [number, string | string[]][]) =>
+    pairs(wd.diff_cleanupMerge(tuples(...items)));
+  assert.deepStrictEqual(merge(), []);
+  assert.deepStrictEqual(
+    merge([DIFF_EQUAL, "a"], [DIFF_DELETE, "b"], [DIFF_INSERT, "c"]),
+    [
+      [DIFF_EQUAL, "a"],
+      [DIFF_DELETE, "b"],
+      [DIFF_INSERT, "c"],
+    ]
+  );
+  assert.deepStrictEqual(
+    merge([DIFF_EQUAL, "a"], [DIFF_EQUAL, "b"], [DIFF_EQUAL, "c"]),
+    [[DIFF_EQUAL, "abc"]]
+  );
+  assert.deepStrictEqual(
+    merge([DIFF_DELETE, "a"], [DIFF_DELETE, "b"], [DIFF_DELETE, "c"]),
+    [[DIFF_DELETE, "abc"]]
+  );
+  assert.deepStrictEqual(
+    merge([DIFF_INSERT, "a"], [DIFF_INSERT, "b"], [DIFF_INSERT, "c"]),
+    [[DIFF_INSERT, "abc"]]
+  );
+  // Merged sections go back into the caller's array, at pointer - n.
+  assert.deepStrictEqual(
+    merge(
+      [DIFF_DELETE, "a"],
+      [DIFF_INSERT, "b"],
+      [DIFF_DELETE, "c"],
+      [DIFF_INSERT, "d"],
+      [DIFF_EQUAL, "e"],
+      [DIFF_EQUAL, "f"]
+    ),
+    [
+      [DIFF_DELETE, "ac"],
+      [DIFF_INSERT, "bd"],
+      [DIFF_EQUAL, "ef"],
+    ]
+  );
+  assert.deepStrictEqual(
+    merge([DIFF_DELETE, "a"], [DIFF_INSERT, "abc"], [DIFF_DELETE, "dc"]),
+    [
+      [DIFF_EQUAL, "a"],
+      [DIFF_DELETE, "d"],
+      [DIFF_INSERT, "b"],
+      [DIFF_EQUAL, "c"],
+    ]
+  );
+  assert.deepStrictEqual(
+    merge(
+      [DIFF_EQUAL, "x"],
+      [DIFF_DELETE, "a"],
+      [DIFF_INSERT, "abc"],
+      [DIFF_DELETE, "dc"],
+      [DIFF_EQUAL, "y"]
+    ),
+    [
+      [DIFF_EQUAL, "xa"],
+      [DIFF_DELETE, "d"],
+      [DIFF_INSERT, "b"],
+      [DIFF_EQUAL, "cy"],
+    ]
+  );
+  assert.deepStrictEqual(
+    merge([DIFF_EQUAL, "a"], [DIFF_INSERT, "ba"], [DIFF_EQUAL, "c"]),
+    [
+      [DIFF_INSERT, "ab"],
+      [DIFF_EQUAL, "ac"],
+    ]
+  );
+  assert.deepStrictEqual(
+    merge([DIFF_EQUAL, "c"], [DIFF_INSERT, "ab"], [DIFF_EQUAL, "a"]),
+    [
+      [DIFF_EQUAL, "ca"],
+      [DIFF_INSERT, "ba"],
+    ]
+  );
+  assert.deepStrictEqual(
+    merge(
+      [DIFF_EQUAL, "a"],
+      [DIFF_DELETE, "b"],
+      [DIFF_EQUAL, "c"],
+      [DIFF_DELETE, "ac"],
+      [DIFF_EQUAL, "x"]
+    ),
+    [
+      [DIFF_DELETE, "abc"],
+      [DIFF_EQUAL, "acx"],
+    ]
+  );
+  assert.deepStrictEqual(
+    merge([DIFF_DELETE, "b"], [DIFF_INSERT, "ab"], [DIFF_EQUAL, "c"]),
+    [
+      [DIFF_INSERT, "a"],
+      [DIFF_EQUAL, "bc"],
+    ]
+  );
+  assert.deepStrictEqual(
+    merge([DIFF_EQUAL, ""], [DIFF_INSERT, "a"], [DIFF_EQUAL, "b"]),
+    [
+      [DIFF_INSERT, "a"],
+      [DIFF_EQUAL, "b"],
+    ]
+  );
+}
+
+// The edit budget and the timeout give up on a minimal diff, never on a
+// correct one.
+{
+  const words = (seed: number, count: number) =>
+    Array.from({ length: count }, (_, i) => "w" + ((i * seed) % 101));
+  const text1 = words(7, 3000);
+  const text2 = words(13, 3000);
+  for (const options of [
+    diffOptions({ maxEdits: 10 }),
+    diffOptions({ timeout: 1 }),
+  ]) {
+    const { diffs, truncated } = diff(text1, text2, options);
+    assert.strictEqual(truncated, true);
+    assert.deepStrictEqual(wd.diff_text1(diffs), text1);
+    assert.deepStrictEqual(wd.diff_text2(diffs), text2);
+  }
+  assert.strictEqual(
+    diff(["a", "b"], ["a", "c"], diffOptions({ maxEdits: 10 })).truncated,
+    false
+  );
+}
+
+// diff_commonOverlap, ported from the upstream tests.
+{
+  const overlap = (text1: string, text2: string) =>
+    wd.diff_commonOverlap([...text1], [...text2]);
+  assert.strictEqual(overlap("", "abcd"), 0);
+  assert.strictEqual(overlap("abc", "abcd"), 3);
+  assert.strictEqual(overlap("123456", "abcd"), 0);
+  assert.strictEqual(overlap("123456xxx", "xxxabcd"), 3);
+  assert.strictEqual(overlap("fi", "\ufb01i"), 0);
+}
+
+// diff_cleanupSemanticLossless, ported from the upstream tests.
+{
+  const lossless = (...items: [number, string | string[]][]) =>
+    pairs(wd.diff_cleanupSemanticLossless(tuples(...items)));
+  assert.deepStrictEqual(lossless(), []);
+  // Blank lines, which only a single token can hold.
+  assert.deepStrictEqual(
+    lossless(
+      [DIFF_EQUAL, ["AAA", "\r\n\r\n", "BBB"]],
+      [DIFF_INSERT, ["\r\n", "DDD", "\r\n\r\n", "BBB"]],
+      [DIFF_EQUAL, ["\r\n", "EEE"]]
+    ),
+    [
+      [DIFF_EQUAL, "AAA\r\n\r\n"],
+      [DIFF_INSERT, "BBB\r\nDDD\r\n\r\n"],
+      [DIFF_EQUAL, "BBB\r\nEEE"],
+    ]
+  );
+  assert.deepStrictEqual(
+    lossless(
+      [DIFF_EQUAL, "AAA\r\nBBB"],
+      [DIFF_INSERT, " DDD\r\nBBB"],
+      [DIFF_EQUAL, " EEE"]
+    ),
+    [
+      [DIFF_EQUAL, "AAA\r\n"],
+      [DIFF_INSERT, "BBB DDD\r\n"],
+      [DIFF_EQUAL, "BBB EEE"],
+    ]
+  );
+  assert.deepStrictEqual(
+    lossless(
+      [DIFF_EQUAL, "The c"],
+      [DIFF_INSERT, "ow and the c"],
+      [DIFF_EQUAL, "at."]
+    ),
+    [
+      [DIFF_EQUAL, "The "],
+      [DIFF_INSERT, "cow and the "],
+      [DIFF_EQUAL, "cat."],
+    ]
+  );
+  assert.deepStrictEqual(
+    lossless(
+      [DIFF_EQUAL, "The-c"],
+      [DIFF_INSERT, "ow-and-the-c"],
+      [DIFF_EQUAL, "at."]
+    ),
+    [
+      [DIFF_EQUAL, "The-"],
+      [DIFF_INSERT, "cow-and-the-"],
+      [DIFF_EQUAL, "cat."],
+    ]
+  );
+  assert.deepStrictEqual(
+    lossless([DIFF_EQUAL, "a"], [DIFF_DELETE, "a"], [DIFF_EQUAL, "ax"]),
+    [
+      [DIFF_DELETE, "a"],
+      [DIFF_EQUAL, "aax"],
+    ]
+  );
+  assert.deepStrictEqual(
+    lossless([DIFF_EQUAL, "xa"], [DIFF_DELETE, "a"], [DIFF_EQUAL, "a"]),
+    [
+      [DIFF_EQUAL, "xaa"],
+      [DIFF_DELETE, "a"],
+    ]
+  );
+  assert.deepStrictEqual(
+    lossless(
+      [DIFF_EQUAL, "The xxx. The "],
+      [DIFF_INSERT, "zzz. The "],
+      [DIFF_EQUAL, "yyy."]
+    ),
+    [
+      [DIFF_EQUAL, "The xxx."],
+      [DIFF_INSERT, " The zzz."],
+      [DIFF_EQUAL, " The yyy."],
+    ]
+  );
+}
+
+// diff_cleanupSemantic, ported from the upstream tests.
+{
+  const semantic = (...items: [number, string | string[]][]) =>
+    pairs(wd.diff_cleanupSemantic(tuples(...items)));
+  assert.deepStrictEqual(semantic(), []);
+  // No elimination.
+  assert.deepStrictEqual(
+    semantic(
+      [DIFF_DELETE, "ab"],
+      [DIFF_INSERT, "cd"],
+      [DIFF_EQUAL, "12"],
+      [DIFF_DELETE, "e"]
+    ),
+    [
+      [DIFF_DELETE, "ab"],
+      [DIFF_INSERT, "cd"],
+      [DIFF_EQUAL, "12"],
+      [DIFF_DELETE, "e"],
+    ]
+  );
+  assert.deepStrictEqual(
+    semantic(
+      [DIFF_DELETE, "abc"],
+      [DIFF_INSERT, "ABC"],
+      [DIFF_EQUAL, "1234"],
+      [DIFF_DELETE, "wxyz"]
+    ),
+    [
+      [DIFF_DELETE, "abc"],
+      [DIFF_INSERT, "ABC"],
+      [DIFF_EQUAL, "1234"],
+      [DIFF_DELETE, "wxyz"],
+    ]
+  );
+  // Simple elimination.
+  assert.deepStrictEqual(
+    semantic([DIFF_DELETE, "a"], [DIFF_EQUAL, "b"], [DIFF_DELETE, "c"]),
+    [
+      [DIFF_DELETE, "abc"],
+      [DIFF_INSERT, "b"],
+    ]
+  );
+  // Backpass elimination.
+  assert.deepStrictEqual(
+    semantic(
+      [DIFF_DELETE, "ab"],
+      [DIFF_EQUAL, "cd"],
+      [DIFF_DELETE, "e"],
+      [DIFF_EQUAL, "f"],
+      [DIFF_INSERT, "g"]
+    ),
+    [
+      [DIFF_DELETE, "abcdef"],
+      [DIFF_INSERT, "cdfg"],
+    ]
+  );
+  // Multiple eliminations.
+  assert.deepStrictEqual(
+    semantic(
+      [DIFF_INSERT, "1"],
+      [DIFF_EQUAL, "A"],
+      [DIFF_DELETE, "B"],
+      [DIFF_INSERT, "2"],
+      [DIFF_EQUAL, "_"],
+      [DIFF_INSERT, "1"],
+      [DIFF_EQUAL, "A"],
+      [DIFF_DELETE, "B"],
+      [DIFF_INSERT, "2"]
+    ),
+    [
+      [DIFF_DELETE, "AB_AB"],
+      [DIFF_INSERT, "1A2_1A2"],
+    ]
+  );
+  // Word boundaries.
+  assert.deepStrictEqual(
+    semantic(
+      [DIFF_EQUAL, "The c"],
+      [DIFF_DELETE, "ow and the c"],
+      [DIFF_EQUAL, "at."]
+    ),
+    [
+      [DIFF_EQUAL, "The "],
+      [DIFF_DELETE, "cow and the "],
+      [DIFF_EQUAL, "cat."],
+    ]
+  );
+  // No overlap elimination.
+  assert.deepStrictEqual(
+    semantic([DIFF_DELETE, "abcxx"], [DIFF_INSERT, "xxdef"]),
+    [
+      [DIFF_DELETE, "abcxx"],
+      [DIFF_INSERT, "xxdef"],
+    ]
+  );
+  // Overlap elimination.
+  assert.deepStrictEqual(
+    semantic([DIFF_DELETE, "abcxxx"], [DIFF_INSERT, "xxxdef"]),
+    [
+      [DIFF_DELETE, "abc"],
+      [DIFF_EQUAL, "xxx"],
+      [DIFF_INSERT, "def"],
+    ]
+  );
+  // Reverse overlap elimination.
+  assert.deepStrictEqual(
+    semantic([DIFF_DELETE, "xxxabc"], [DIFF_INSERT, "defxxx"]),
+    [
+      [DIFF_INSERT, "def"],
+      [DIFF_EQUAL, "xxx"],
+      [DIFF_DELETE, "abc"],
+    ]
+  );
+  // Two overlap eliminations.
+  assert.deepStrictEqual(
+    semantic(
+      [DIFF_DELETE, "abcd1212"],
+      [DIFF_INSERT, "1212efghi"],
+      [DIFF_EQUAL, "----"],
+      [DIFF_DELETE, "A3"],
+      [DIFF_INSERT, "3BC"]
+    ),
+    [
+      [DIFF_DELETE, "abcd"],
+      [DIFF_EQUAL, "1212"],
+      [DIFF_INSERT, "efghi"],
+      [DIFF_EQUAL, "----"],
+      [DIFF_DELETE, "A"],
+      [DIFF_EQUAL, "3"],
+      [DIFF_INSERT, "BC"],
+    ]
+  );
+}
+
+// arrayIndexOf, through its callers: a wrong period made it report "bb" in
+// "bbc", an inconsistent ordering of its two passes made it miss "abba" in
+// "abbac", and a start position made it return an index into the rest of the
+// text only.
+{
+  const overlap = (text1: string, text2: string) =>
+    wd.diff_commonOverlap([...text1], [...text2]);
+  assert.strictEqual(overlap("aab", "bbc"), 1);
+  assert.strictEqual(overlap("aabba", "abbac"), 4);
+  assert.strictEqual(match_main([..."ccccccccab"], ["a", "b"], 5), 8);
+}
+
+// diff_cleanupEfficiency, ported from the upstream tests.
+{
+  const efficiency = (edit_cost: number, ...items: [number, string][]) =>
+    pairs(wd.diff_cleanupEfficiency(tuples(...items), edit_cost));
+  assert.deepStrictEqual(efficiency(4), []);
+  // No elimination.
+  assert.deepStrictEqual(
+    efficiency(
+      4,
+      [DIFF_DELETE, "ab"],
+      [DIFF_INSERT, "12"],
+      [DIFF_EQUAL, "wxyz"],
+      [DIFF_DELETE, "cd"],
+      [DIFF_INSERT, "34"]
+    ),
+    [
+      [DIFF_DELETE, "ab"],
+      [DIFF_INSERT, "12"],
+      [DIFF_EQUAL, "wxyz"],
+      [DIFF_DELETE, "cd"],
+      [DIFF_INSERT, "34"],
+    ]
+  );
+  // Four-edit elimination.
+  assert.deepStrictEqual(
+    efficiency(
+      4,
+      [DIFF_DELETE, "ab"],
+      [DIFF_INSERT, "12"],
+      [DIFF_EQUAL, "xyz"],
+      [DIFF_DELETE, "cd"],
+      [DIFF_INSERT, "34"]
+    ),
+    [
+      [DIFF_DELETE, "abxyzcd"],
+      [DIFF_INSERT, "12xyz34"],
+    ]
+  );
+  // Three-edit elimination.
+  assert.deepStrictEqual(
+    efficiency(
+      4,
+      [DIFF_INSERT, "12"],
+      [DIFF_EQUAL, "x"],
+      [DIFF_DELETE, "cd"],
+      [DIFF_INSERT, "34"]
+    ),
+    [
+      [DIFF_DELETE, "xcd"],
+      [DIFF_INSERT, "12x34"],
+    ]
+  );
+  // Backpass elimination.
+  assert.deepStrictEqual(
+    efficiency(
+      4,
+      [DIFF_DELETE, "ab"],
+      [DIFF_INSERT, "12"],
+      [DIFF_EQUAL, "xy"],
+      [DIFF_INSERT, "34"],
+      [DIFF_EQUAL, "z"],
+      [DIFF_DELETE, "cd"],
+      [DIFF_INSERT, "56"]
+    ),
+    [
+      [DIFF_DELETE, "abxyzcd"],
+      [DIFF_INSERT, "12xy34z56"],
+    ]
+  );
+  // High cost elimination.
+  assert.deepStrictEqual(
+    efficiency(
+      5,
+      [DIFF_DELETE, "ab"],
+      [DIFF_INSERT, "12"],
+      [DIFF_EQUAL, "wxyz"],
+      [DIFF_DELETE, "cd"],
+      [DIFF_INSERT, "34"]
+    ),
+    [
+      [DIFF_DELETE, "abwxyzcd"],
+      [DIFF_INSERT, "12wxyz34"],
+    ]
+  );
+  // An edit cost of 0 falls back to the default of 4, here and in diff.
+  const items: [number, string][] = [
+    [DIFF_DELETE, "ab"],
+    [DIFF_INSERT, "12"],
+    [DIFF_EQUAL, "xyz"],
+    [DIFF_DELETE, "cd"],
+    [DIFF_INSERT, "34"],
+  ];
+  assert.deepStrictEqual(efficiency(0, ...items), efficiency(4, ...items));
+  const text1 = [..."abxyzcd"];
+  const text2 = [..."12xyz34"];
+  assert.deepStrictEqual(
+    pairs(
+      diff(text1, text2, diffOptions({ cleanupEfficiency: true, editCost: 0 }))
+        .diffs
+    ),
+    [
+      [DIFF_DELETE, "abxyzcd"],
+      [DIFF_INSERT, "12xyz34"],
+    ]
+  );
+  assert.strictEqual(diff(text1, text2).diffs.length, 5);
+}
+
+// Line breaks are marked without String#replaceAll, which writes past the end
+// of its buffer when the replacement is much longer than the text before it.
+{
+  const { diffs } = diff(["\n", "\n", "a"], ["\n", "\n", "b"]);
+  const options = {
+    insertClass: null,
+    deleteClass: null,
+    equalClass: null,
+    showNewlines: true,
+  };
+  for (let i = 0; i < 1000; i++) {
+    assert.strictEqual(
+      diff_prettyHtml(diffs, options),
+      "<span>&para;<br>&para;<br></span>" +
+        '<del style="background:#ffe6e6;">a</del>' +
+        '<ins style="background:#e6ffe6;">b</ins>'
+    );
+  }
+}
+
+// patch_make keeps the text of its rolling context alive over many hunks,
+// with collections running in between.
+{
+  const text1 = Array.from({ length: 2000 }, (_, i) => "w" + (i % 97));
+  const text2 = text1.map((w, i) => (i % 50 === 25 ? "x" + i : w));
+  const patches = patch_make(diff(text1, text2).diffs);
+  assert.strictEqual(patches.length, 40);
+  assert.deepStrictEqual(patch_apply(patches, text1).text, text2);
+}
+
+// Refinement runs on what is left of the word diff's budget, not on a fresh
+// budget for every chunk.
+{
+  let seed = 1;
+  const word = (length: number) =>
+    Array.from({ length }, () => {
+      seed = (seed * 16807) % 2147483647;
+      return String.fromCharCode(97 + (seed % 26));
+    }).join("");
+  const refined = (
+    words: number,
+    length: number,
+    options: Partial<DiffOptions>
+  ) => {
+    const text1 = Array.from({ length: words }, () => word(length)).join(" ");
+    const text2 = Array.from({ length: words }, () => word(length)).join(" ");
+    const { chunks, truncated } = wd.worddiff(
+      text1,
+      text2,
+      wordDiffOptions({ refine: true, diff: diffOptions(options) })
+    );
+    return {
+      truncated,
+      refined: chunks.filter((c) => c.parts !== null).length,
+    };
+  };
+  assert.deepStrictEqual(refined(5, 300, {}), {
+    truncated: false,
+    refined: 10,
+  });
+  // Each pair of words needs more than 1000 edits.
+  assert.deepStrictEqual(refined(5, 300, { maxEdits: 1000 }), {
+    truncated: true,
+    refined: 2,
+  });
+  // Two random words of n characters take more than n / 2 edits, so their
+  // character diff explores more than n² / 8 cells.  Even at 10^7 cells per
+  // millisecond, well beyond any machine, the first pair runs past the
+  // deadline, and the second one is left unrefined.
+  const timeout = 5;
+  const length = 4 * Math.ceil(Math.sqrt(timeout * 1e7));
+  const timed = refined(2, length, { timeout });
+  assert.strictEqual(timed.truncated, true);
+  assert.ok(timed.refined <= 2);
+}